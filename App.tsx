@@ -1,7 +1,31 @@
 import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { Trip, Tab, DayPlan, Expense, ChecklistItem, ActivityType, ItineraryItem, ExpenseCategory, PaymentMethod, SplitType, Budget, Voucher, BookingDetails, AdvancedGuide } from './types';
-import { fetchDestinationInfo, analyzeItinerary } from './geminiService';
+import { Trip, Tab, DayPlan, Expense, ChecklistItem, ActivityType, ItineraryItem, ExpenseCategory, ExpenseLine, PaymentMethod, PaymentMethodConfig, CashEntry, CashEntryType, SplitMode, TaxRefundStatus, ExpenseFilter, ExpenseSort, Budget, Voucher, BookingDetails, AdvancedGuide } from './types';
+import { fetchDestinationInfo, analyzeItinerary, analyzeReceipt } from './geminiService';
 import { Icons } from './Icons';
+import { loadTrips, syncTrips } from './storageService';
+import { migrateTrip, CURRENT_SCHEMA_VERSION } from './tripMigrations';
+import { EXPENSE_CATEGORIES, SPLIT_MODE_LABELS, TAX_REFUND_STATUS_LABELS, EXPENSE_SORT_LABELS } from './constants';
+import { DEFAULT_PAYMENT_METHODS, defaultPaymentMethod, findPaymentMethod, paymentMethodName, paymentBreakdown, paymentMethodStats, isPaymentMethodUsed, isCashPayment } from './paymentMethods';
+import { cashWallets, effectiveCashRate, reconcileCash, applyCashRates } from './cashWallet';
+import { newExpenseSplit, expenseTotal, sharesTotal, travellerBalances, settleUp, isTravellerUsed } from './ledger';
+import { lineBaseAmount, linesTotal, linesMatchTotal, categoryTotals } from './expenseLines';
+import { budgetForecast, BudgetForecast } from './budgetForecast';
+import { plannedCurrency, plannedCostTwd, linkedExpense, actualExpenseForItem, planReport } from './plannedCosts';
+import { taxRefundClaims, setClaimStatus, refundedTotal, TaxRefundClaim } from './taxRefund';
+import { EMPTY_EXPENSE_FILTER, isFilterActive, filterExpenses } from './expenseFilter';
+import { parseQuickExpense, quickExpenseRate, quickExpense } from './quickAdd';
+import { validateTrip } from './scheduleValidator';
+import { spanningItems, isMultiDay, spanLength, costPerDay, spanTitle, spanLengthLabel, spanningLabel } from './multiDay';
+import { shiftTrip, insertDay, removeDay, moveDay } from './tripDates';
+import { findItem, placeByTime, slotTime, moveItem } from './itineraryMoves';
+import { COMMON_TIME_ZONES, isValidTimeZone, guessTimeZone, timeZoneLabel, zoneOffset, formatOffset, todayIn, itemTimeZone, itemEndTimeZone, itemDurationMinutes, formatDuration } from './timeZones';
+import { tripCurrencies, currencyOptions, rateForCurrency, setCurrencyRate, removeCurrency, currencySubtotals } from './currencies';
+import { getRateProvider, loadRateSource, saveRateSource, rerateExpenses, RateSource } from './exchangeRateService';
+import { buildExpensesCsv, parseCsv, guessCsvMapping, guessNegativeCharges, mapCsvRows, CSV_FIELDS, CsvColumnMapping } from './csvService';
+import { buildTripCalendar, parseCalendar, importCalendarEvents } from './calendarService';
+import { exportTripArchive, importTripArchive, isTripArchive } from './archiveService';
+import { findMergeTarget, diffTrips, defaultMergeChoices, mergeTrips, MergeSection, MergeChange, MergeChoices, MergeSide } from './mergeService';
+import { TripHistory, createHistory, recordChange, undoChange, redoChange, currentTrip as historyTrip } from './tripHistory';
 import LZString from 'lz-string';
 
 // --- Static Data ---
@@ -58,6 +82,19 @@ const handleFileUpload = (file: File): Promise<{data: string, type: 'image' | 'p
 
 const compressImage = async (file: File) => (await handleFileUpload(file)).data; // Backward compatibility alias
 
+const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    a.click();
+};
+
+const exportCalendar = (trip: Trip) => {
+    const ics = buildTripCalendar(trip);
+    downloadBlob(new Blob([ics], { type: 'text/calendar;charset=utf-8' }), `trip-${trip.destination}-${trip.startDate}.ics`);
+};
+
 // Map weather string to Icon
 const getWeatherIcon = (weatherStr: string) => {
     if (!weatherStr) return Icons.Sun;
@@ -67,24 +104,6 @@ const getWeatherIcon = (weatherStr: string) => {
     return Icons.Sun;
 };
 
-// Calculate duration between two time strings (HH:MM)
-const calculateDuration = (start: string, end?: string) => {
-    if (!end || !start) return null;
-    try {
-        const [sh, sm] = start.split(':').map(Number);
-        const [eh, em] = end.split(':').map(Number);
-        const startMin = sh * 60 + sm;
-        const endMin = eh * 60 + em;
-        let diff = endMin - startMin;
-        if (diff < 0) diff += 24 * 60; // Handle over midnight
-        const hours = Math.floor(diff / 60);
-        const mins = diff % 60;
-        return `${hours > 0 ? hours + 'h' : ''}${mins > 0 ? mins + 'm' : ''}`;
-    } catch {
-        return null;
-    }
-};
-
 // --- Sub-Components ---
 
 const LoadingSpinner = () => (
@@ -133,6 +152,15 @@ const Modal = ({ isOpen, onClose, title, children }: any) => {
     );
 };
 
+// Empty value means "use the default", which is named in defaultLabel
+const TimeZoneSelect = ({ value, onChange, defaultLabel, className }: { value?: string; onChange: (zone: string | undefined) => void; defaultLabel: string; className?: string }) => (
+    <select value={value || ''} onChange={e => onChange(e.target.value || undefined)} className={className}>
+        <option value="">{defaultLabel}</option>
+        {COMMON_TIME_ZONES.map(z => <option key={z.zone} value={z.zone}>{z.label} ({formatOffset(zoneOffset(z.zone, new Date()))})</option>)}
+        {value && !COMMON_TIME_ZONES.some(z => z.zone === value) && <option value={value}>{value}</option>}
+    </select>
+);
+
 // --- Itinerary Logic ---
 
 const ITINERARY_TYPES: { type: ActivityType; label: string; icon: any; colorClass: string }[] = [
@@ -153,7 +181,11 @@ const ItineraryView = ({ trip, updateTrip, isPrinting = false }: { trip: Trip; u
   const [newAlternative, setNewAlternative] = useState('');
   const [imageModalUrl, setImageModalUrl] = useState<string | null>(null);
   const [isMapView, setIsMapView] = useState(false);
-  const [draggedItemIndex, setDraggedItemIndex] = useState<number | null>(null);
+  const [draggedItemId, setDraggedItemId] = useState<string | null>(null);
+  const [isAddingIdea, setIsAddingIdea] = useState(false);
+  const [actualForm, setActualForm] = useState<{ item: ItineraryItem; amount: string; currency: string } | null>(null);
+  const [showIssues, setShowIssues] = useState(false);
+  const [isDaysModalOpen, setIsDaysModalOpen] = useState(false);
 
   useEffect(() => {
     if(!isMapView && !isPrinting) window.scrollTo({ top: 0, behavior: 'smooth' });
@@ -169,6 +201,9 @@ const ItineraryView = ({ trip, updateTrip, isPrinting = false }: { trip: Trip; u
                           Day {idx + 1} - {formatDate(day.date)}
                       </h3>
                       <div className="space-y-4 pl-4 border-l-2 border-gray-200 ml-2">
+                          {spanningItems(trip, idx).map(span => (
+                              <div key={span.item.id} className="text-xs text-gray-500">{spanTitle(span.item)} · {spanningLabel(span)}</div>
+                          ))}
                           {(day.items || []).map(item => (
                               <div key={item.id} className="flex gap-4 mb-2">
                                   <div className="w-16 text-xs font-bold text-gray-600 pt-1">{item.time}</div>
@@ -187,8 +222,12 @@ const ItineraryView = ({ trip, updateTrip, isPrinting = false }: { trip: Trip; u
       );
   }
 
+  const scheduleIssues = validateTrip(trip);
+  const ongoingItems = spanningItems(trip, selectedDayIndex);
+  const isIdeaForm = modalMode === 'add' ? isAddingIdea : trip.unscheduled.some(i => i.id === editingItemId);
+
   const jumpToToday = () => {
-      const today = new Date().toISOString().split('T')[0];
+      const today = todayIn(trip.timeZone);
       const idx = trip.itinerary.findIndex(day => day.date.startsWith(today));
       if (idx !== -1) {
           setSelectedDayIndex(idx);
@@ -198,9 +237,10 @@ const ItineraryView = ({ trip, updateTrip, isPrinting = false }: { trip: Trip; u
       }
   }
 
-  const openAddModal = () => {
+  const openAddModal = (asIdea = false) => {
       setModalMode('add');
-      setItemForm({ time: '', endTime: '', activity: '', location: '', type: 'attraction', isImportant: false, alternatives: [], cost: 0, travelTime: '', travelMode: 'transit' });
+      setIsAddingIdea(asIdea);
+      setItemForm({ time: '', endTime: '', activity: '', location: '', type: 'attraction', isImportant: false, alternatives: [], cost: 0, costCurrency: trip.currencyCode, travelTime: '', travelMode: 'transit' });
       setIsModalOpen(true);
   };
 
@@ -212,16 +252,14 @@ const ItineraryView = ({ trip, updateTrip, isPrinting = false }: { trip: Trip; u
   };
 
   const handleSaveItem = () => {
-      if (!itemForm.time || !itemForm.activity) return alert("請輸入時間與活動名稱");
+      if ((!itemForm.time && !isIdeaForm) || !itemForm.activity) return alert("請輸入時間與活動名稱");
       
       const newTrip = { ...trip };
-      const currentItems = newTrip.itinerary[selectedDayIndex].items;
-      let savedItem: ItineraryItem;
-
+      let saved: ItineraryItem;
       if (modalMode === 'add') {
-          savedItem = {
+          saved = {
               id: generateId(),
-              time: itemForm.time!,
+              time: itemForm.time || '',
               endTime: itemForm.endTime,
               activity: itemForm.activity!,
               location: itemForm.location || '',
@@ -231,72 +269,26 @@ const ItineraryView = ({ trip, updateTrip, isPrinting = false }: { trip: Trip; u
               bookingImage: itemForm.bookingImage,
               isCompleted: false,
               cost: Number(itemForm.cost) || 0,
+              costCurrency: itemForm.costCurrency,
               travelTime: itemForm.travelTime,
               travelMode: itemForm.travelMode,
+              timeZone: itemForm.timeZone,
+              endTimeZone: itemForm.type === 'flight' ? itemForm.endTimeZone : undefined,
+              endDate: isIdeaForm ? undefined : itemForm.endDate,
           };
-          currentItems.push(savedItem);
       } else {
-          const index = currentItems.findIndex(i => i.id === editingItemId);
-          if (index !== -1) {
-              currentItems[index] = { ...currentItems[index], ...itemForm } as ItineraryItem;
-              savedItem = currentItems[index];
-          } else {
-              return;
-          }
+          const existing = findItem(trip, editingItemId || '');
+          if (!existing) return;
+          saved = { ...existing.item, ...itemForm } as ItineraryItem;
       }
-      
-      currentItems.sort((a, b) => {
-          if (a.isCompleted !== b.isCompleted) return a.isCompleted ? 1 : -1;
-          return a.time.localeCompare(b.time);
-      });
 
-      // --- Auto Expense Logic ---
-      const cost = Number(itemForm.cost) || 0;
-      const itemId = savedItem.id;
-
-      const mapTypeToCategory = (t: ActivityType): ExpenseCategory => {
-          switch (t) {
-              case 'flight': return 'flight';
-              case 'attraction': return 'ticket';
-              case 'food': return 'food';
-              case 'transport': return 'transport';
-              case 'accommodation': return 'accommodation';
-              default: return 'other';
-          }
-      };
-      
-      const expenseIndex = newTrip.expenses.findIndex(e => e.itemId === itemId);
-      const currentDate = newTrip.itinerary[selectedDayIndex].date;
-      
-      if (cost > 0) {
-          if (expenseIndex >= 0) {
-              // Update existing expense
-              newTrip.expenses[expenseIndex] = {
-                  ...newTrip.expenses[expenseIndex],
-                  item: savedItem.activity,
-                  twdAmount: cost, // Assume input is TWD/base currency for auto-add
-                  category: mapTypeToCategory(savedItem.type),
-                  date: currentDate
-              };
-          } else {
-              // Create new expense
-              newTrip.expenses.push({
-                  id: generateId(),
-                  itemId: itemId,
-                  item: savedItem.activity,
-                  foreignAmount: 0,
-                  twdAmount: cost,
-                  exchangeRate: 1,
-                  currency: 'TWD',
-                  category: mapTypeToCategory(savedItem.type),
-                  paymentMethod: 'cash',
-                  split: 'me',
-                  date: currentDate
-              });
-          }
-      } else if (expenseIndex >= 0) {
-          // Remove expense if cost is set to 0 or cleared
-          newTrip.expenses.splice(expenseIndex, 1);
+      if (isIdeaForm) {
+          newTrip.unscheduled = modalMode === 'add' ? [...trip.unscheduled, saved] : trip.unscheduled.map(i => i.id === saved.id ? saved : i);
+      } else {
+          // An item keeps its place in a dragged order unless its time changed
+          const day = newTrip.itinerary[selectedDayIndex];
+          const previous = day.items.find(i => i.id === saved.id);
+          day.items = previous && previous.time === saved.time ? day.items.map(i => i.id === saved.id ? saved : i) : placeByTime(day.items, saved);
       }
 
       updateTrip(newTrip);
@@ -310,52 +302,126 @@ const ItineraryView = ({ trip, updateTrip, isPrinting = false }: { trip: Trip; u
     // Remove Item
     newTrip.itinerary[dayIndex].items = newTrip.itinerary[dayIndex].items.filter(i => i.id !== itemId);
     
-    // Remove linked expense if exists
-    const expenseIndex = newTrip.expenses.findIndex(e => e.itemId === itemId);
-    if(expenseIndex >= 0) {
-        newTrip.expenses.splice(expenseIndex, 1);
-    }
+    // The actual cost was really spent, so it stays as a plain expense
+    newTrip.expenses = newTrip.expenses.map(e => e.itemId === itemId ? { ...e, itemId: undefined } : e);
 
     updateTrip(newTrip);
   };
 
+  // --- Trip Dates ---
+  const changeDays = (newTrip: Trip) => {
+      updateTrip(newTrip);
+      setSelectedDayIndex(i => Math.min(i, newTrip.itinerary.length - 1));
+  };
+
+  const handleRemoveDay = (index: number) => {
+      if (trip.itinerary.length <= 1) return alert("旅程至少需要一天");
+      const count = trip.itinerary[index].items.length;
+      if (!confirm(count > 0 ? `確定刪除第 ${index + 1} 天？當天的 ${count} 個行程會移到「未排定」` : `確定刪除第 ${index + 1} 天？`)) return;
+      changeDays(removeDay(trip, index));
+  };
+
+  // Goes where its time fits; an idea without a time is put after the day's last item
+  const scheduleParkedItem = (itemId: string) => {
+      const item = trip.unscheduled.find(i => i.id === itemId);
+      if (!item) return;
+      const items = trip.itinerary[selectedDayIndex].items;
+      updateTrip(moveItem(trip, itemId, selectedDayIndex, undefined, item.time ? undefined : slotTime(items, items.length, item)));
+  };
+
+  const removeParkedItem = (itemId: string) => {
+      if (!confirm("確定刪除此行程?")) return;
+      updateTrip({
+          ...trip,
+          unscheduled: trip.unscheduled.filter(i => i.id !== itemId),
+          expenses: trip.expenses.map(e => e.itemId === itemId ? { ...e, itemId: undefined } : e)
+      });
+  };
+
   const toggleComplete = (itemId: string) => {
       const newTrip = { ...trip };
       const items = newTrip.itinerary[selectedDayIndex].items;
       const item = items.find(i => i.id === itemId);
       if (item) {
           item.isCompleted = !item.isCompleted;
-          items.sort((a, b) => {
-              if (a.isCompleted !== b.isCompleted) return a.isCompleted ? 1 : -1;
-              return a.time.localeCompare(b.time);
-          });
+          if (item.isCompleted && (item.cost || 0) > 0 && !linkedExpense(trip, item.id)) openActualCost(item);
+          newTrip.itinerary[selectedDayIndex].items = placeByTime(items, item);
           updateTrip(newTrip);
       }
   };
 
-  const handleDragStart = (e: React.DragEvent, index: number) => {
-      setDraggedItemIndex(index);
+  // --- Actual Cost ---
+
+  const openActualCost = (item: ItineraryItem) => setActualForm({ item, amount: String(item.cost || ''), currency: plannedCurrency(item) });
+
+  const saveActualCost = () => {
+      if (!actualForm) return;
+      const amount = parseFloat(actualForm.amount);
+      if (!(amount > 0)) return alert("請輸入實際金額");
+      const date = trip.itinerary[selectedDayIndex]?.date || trip.startDate;
+      updateTrip({ ...trip, expenses: [...trip.expenses, actualExpenseForItem(trip, actualForm.item, amount, actualForm.currency, date, generateId())] });
+      setActualForm(null);
+  };
+
+  // Items can be dragged within a day, onto another day's tab and to or from the ideas list
+  const handleDragStart = (e: React.DragEvent, itemId: string) => {
+      setDraggedItemId(itemId);
       e.dataTransfer.effectAllowed = 'move';
+      e.dataTransfer.setData('text/plain', itemId);
   };
 
-  const handleDragOver = (e: React.DragEvent, index: number) => {
+  const handleDragOver = (e: React.DragEvent) => {
+      if (!draggedItemId) return;
       e.preventDefault();
       e.dataTransfer.dropEffect = 'move';
   };
 
-  const handleDrop = (e: React.DragEvent, dropIndex: number) => {
+  // Without an index the item goes where its time fits; with one, its time can follow the slot
+  const handleDrop = (e: React.DragEvent, dayIndex: number | null, index?: number) => {
+      if (!draggedItemId) return;
       e.preventDefault();
-      if (draggedItemIndex === null || draggedItemIndex === dropIndex) return;
+      e.stopPropagation();
+      const from = findItem(trip, draggedItemId);
+      setDraggedItemId(null);
+      if (!from) return;
+
+      let time: string | undefined;
+      if (dayIndex !== null) {
+          const items = trip.itinerary[dayIndex].items.filter(i => i.id !== from.item.id);
+          const suggested = index !== undefined ? slotTime(items, index, from.item) : !from.item.time ? slotTime(items, items.length, from.item) : undefined;
+          if (suggested && (!from.item.time || confirm(`將「${from.item.activity}」的時間從 ${from.item.time} 改為 ${suggested}，讓時間與排列順序一致？`))) time = suggested;
+      }
+      updateTrip(moveItem(trip, from.item.id, dayIndex, index, time));
+  };
 
-      const newTrip = { ...trip };
-      const items = newTrip.itinerary[selectedDayIndex].items;
-      
-      const itemToMove = items[draggedItemIndex];
-      items.splice(draggedItemIndex, 1);
-      items.splice(dropIndex, 0, itemToMove);
+  // --- Calendar Import (.ics picked or dropped onto the view) ---
 
-      updateTrip(newTrip);
-      setDraggedItemIndex(null);
+  const importCalendarFile = (file: File) => {
+      file.text().then(text => {
+          const events = parseCalendar(text, trip.timeZone);
+          if (events.length === 0) return alert("檔案中沒有可匯入的行程");
+          const result = importCalendarEvents(trip, events, generateId);
+          updateTrip(result.trip);
+          alert(`已新增 ${result.added} 筆、更新 ${result.updated} 筆行程${result.skipped > 0 ? `，${result.skipped} 筆不在旅程日期內已略過` : ''}`);
+      }).catch(() => alert("讀取行事曆失敗"));
+  };
+
+  const handleCalendarInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      if (file) importCalendarFile(file);
+      e.target.value = '';
+  };
+
+  const handleFileDragOver = (e: React.DragEvent) => {
+      if (e.dataTransfer.types.includes('Files')) e.preventDefault();
+  };
+
+  const handleFileDrop = (e: React.DragEvent) => {
+      const file = e.dataTransfer.files?.[0];
+      if (!file) return;
+      e.preventDefault();
+      if (file.name.toLowerCase().endsWith('.ics') || file.type === 'text/calendar') importCalendarFile(file);
+      else alert("僅支援 .ics 行事曆檔案");
   };
 
   const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -403,7 +469,7 @@ const ItineraryView = ({ trip, updateTrip, isPrinting = false }: { trip: Trip; u
   }, [currentDayPlan]);
 
   return (
-    <div className="pb-24 animate-fade-in">
+    <div className="pb-24 animate-fade-in" onDragOver={handleFileDragOver} onDrop={handleFileDrop}>
        {/* Hero Section */}
        <div className="relative mb-4 rounded-2xl overflow-hidden shadow-lg bg-gradient-to-r from-gray-900 via-dark-card to-gray-900 border border-gold-500/30 p-5 flex justify-between items-center no-print">
            <div>
@@ -444,6 +510,8 @@ const ItineraryView = ({ trip, updateTrip, isPrinting = false }: { trip: Trip; u
                     <button
                         key={idx}
                         onClick={() => setSelectedDayIndex(idx)}
+                        onDragOver={handleDragOver}
+                        onDrop={(e) => handleDrop(e, idx)}
                         className={`flex-shrink-0 px-2 py-2 rounded-xl min-w-[70px] flex flex-col items-center transition-all border ${
                         isSelected 
                         ? 'bg-gold-500 text-black border-gold-500 shadow-lg shadow-gold-500/20' 
@@ -463,13 +531,72 @@ const ItineraryView = ({ trip, updateTrip, isPrinting = false }: { trip: Trip; u
       </div>
       
       {/* View Toggle - HIDE IN PRINT */}
-      <div className="flex justify-end mb-4 px-2 no-print">
+      <div className="flex justify-between items-center mb-4 px-2 no-print">
+          <div className="flex gap-2">
+              <button onClick={() => exportCalendar(trip)} className="flex items-center gap-1 text-xs text-gray-400 hover:text-gold-400 px-2 py-1 rounded-lg border border-gray-700 bg-dark-surface"><Icons.Calendar size={14} /> 匯出行事曆</button>
+              <label title="也可直接將 .ics 檔拖曳到此頁" className="flex items-center gap-1 text-xs text-gray-400 hover:text-gold-400 px-2 py-1 rounded-lg border border-gray-700 bg-dark-surface cursor-pointer">
+                  <Icons.Download size={14} /> 匯入
+                  <input type="file" accept=".ics,text/calendar" onChange={handleCalendarInput} className="hidden" />
+              </label>
+              <button onClick={() => setIsDaysModalOpen(true)} className="flex items-center gap-1 text-xs text-gray-400 hover:text-gold-400 px-2 py-1 rounded-lg border border-gray-700 bg-dark-surface"><Icons.Edit size={14} /> 調整日期</button>
+              <TimeZoneSelect value={trip.timeZone} onChange={zone => zone && updateTrip({ ...trip, timeZone: zone })} defaultLabel={timeZoneLabel(trip.timeZone)} className="text-xs text-gray-400 px-2 py-1 rounded-lg border border-gray-700 bg-dark-surface outline-none" />
+              {scheduleIssues.length > 0 && (
+                  <button onClick={() => setShowIssues(!showIssues)} className={`flex items-center gap-1 text-xs px-2 py-1 rounded-lg border bg-dark-surface ${scheduleIssues.some(i => i.severity === 'error') ? 'text-red-400 border-red-800' : 'text-amber-400 border-amber-800'}`}><Icons.Alert size={14} /> {scheduleIssues.length}</button>
+              )}
+          </div>
           <div className="bg-dark-surface p-1 rounded-lg border border-gray-700 inline-flex">
               <button onClick={() => setIsMapView(false)} className={`px-3 py-1 text-xs font-bold rounded-md transition-all ${!isMapView ? 'bg-gold-500 text-black' : 'text-gray-400 hover:text-white'}`}>列表</button>
               <button onClick={() => setIsMapView(true)} className={`px-3 py-1 text-xs font-bold rounded-md transition-all ${isMapView ? 'bg-gold-500 text-black' : 'text-gray-400 hover:text-white'}`}>地圖</button>
           </div>
       </div>
 
+      {showIssues && scheduleIssues.length > 0 && (
+          <div className="mb-4 p-3 bg-dark-surface border border-gray-700 rounded-xl space-y-1 no-print">
+              <div className="text-xs font-bold text-gray-300 mb-2">行程檢查</div>
+              {scheduleIssues.map((issue, i) => {
+                  const item = trip.itinerary[issue.dayIndex].items.find(it => it.id === issue.itemId);
+                  return (
+                      <button key={i} onClick={() => setSelectedDayIndex(issue.dayIndex)} className={`w-full text-left flex gap-2 text-xs ${issue.severity === 'error' ? 'text-red-400' : 'text-amber-400'}`}>
+                          <span className="flex-shrink-0 font-mono">D{issue.dayIndex + 1} {item?.time}</span>
+                          <span className="truncate"><span className="text-gray-300">{item?.activity}</span> {issue.message}</span>
+                      </button>
+                  );
+              })}
+          </div>
+      )}
+
+      <div onDragOver={handleDragOver} onDrop={(e) => handleDrop(e, null)} className={`mb-4 p-3 bg-dark-surface border border-dashed rounded-xl space-y-2 no-print ${draggedItemId ? 'border-gold-500/50' : 'border-gray-700'}`}>
+          <div className="flex justify-between items-center">
+              <div className="text-xs font-bold text-gray-300">點子 / 未排定 ({trip.unscheduled.length})</div>
+              <button onClick={() => openAddModal(true)} className="text-xs text-gold-500 flex items-center gap-1"><Icons.Plus size={12} /> 新增點子</button>
+          </div>
+          {trip.unscheduled.length === 0 && <div className="text-[10px] text-gray-500">還沒排進行程的想法放這裡，拖曳到日期或行程之間即可排入</div>}
+          {trip.unscheduled.map(item => (
+              <div key={item.id} draggable onDragStart={(e) => handleDragStart(e, item.id)} onDragEnd={() => setDraggedItemId(null)} className={`flex items-center gap-2 text-sm cursor-grab ${draggedItemId === item.id ? 'opacity-30' : ''}`}>
+                  <Icons.Grip size={14} className="text-gray-600 flex-shrink-0" />
+                  {item.time && <span className="text-xs font-mono text-gray-500">{item.time}</span>}
+                  <button onClick={() => openEditModal(item)} className="flex-1 truncate text-left text-gray-200">{item.activity}</button>
+                  <button onClick={() => scheduleParkedItem(item.id)} className="text-xs text-gold-500 border border-gold-500/30 px-2 py-0.5 rounded bg-gold-500/10 flex-shrink-0">排入第 {selectedDayIndex + 1} 天</button>
+                  <button onClick={() => removeParkedItem(item.id)} className="text-gray-500 hover:text-red-400 p-1"><Icons.Trash size={14} /></button>
+              </div>
+          ))}
+      </div>
+
+      {ongoingItems.length > 0 && (
+          <div className="mb-4 space-y-2">
+              {ongoingItems.map(span => {
+                  const SpanIcon = (ITINERARY_TYPES.find(t => t.type === span.item.type) || ITINERARY_TYPES[5]).icon;
+                  return (
+                      <button key={span.item.id} onClick={() => setSelectedDayIndex(span.startIndex)} className="w-full flex items-center gap-3 px-3 py-2 bg-dark-surface border border-gray-700 rounded-xl text-left hover:border-gold-500/50">
+                          <SpanIcon size={16} className="text-gold-500 flex-shrink-0" />
+                          <span className="flex-1 truncate text-sm text-gray-200">{spanTitle(span.item)}</span>
+                          <span className={`text-xs flex-shrink-0 ${span.role === 'checkOut' ? 'text-gold-400 font-bold' : 'text-gray-500'}`}>{spanningLabel(span)}</span>
+                      </button>
+                  );
+              })}
+          </div>
+      )}
+
       {/* Content */}
       {isMapView ? (
           <div className="h-[60vh] rounded-2xl overflow-hidden border border-gray-700 relative bg-dark-card no-print">
@@ -487,22 +614,23 @@ const ItineraryView = ({ trip, updateTrip, isPrinting = false }: { trip: Trip; u
             <div className="absolute left-[27px] top-4 bottom-0 w-0.5 bg-gradient-to-b from-gold-500 via-gray-700 to-gray-800 no-print"></div>
             <div className="space-y-2">
                 {currentDayPlan.items.length === 0 ? (
-                    <div className="ml-10 py-10 text-gray-500 border-2 border-dashed border-gray-800 rounded-xl text-center no-print"><p>本日尚無行程</p><p className="text-sm mt-2">點擊右下角新增</p></div>
+                    <div onDragOver={handleDragOver} onDrop={(e) => handleDrop(e, selectedDayIndex, 0)} className="ml-10 py-10 text-gray-500 border-2 border-dashed border-gray-800 rounded-xl text-center no-print"><p>本日尚無行程</p><p className="text-sm mt-2">點擊右下角新增，或從點子清單拖曳到這裡</p></div>
                 ) : (
                     currentDayPlan.items.map((item, index) => {
                         const typeConfig = ITINERARY_TYPES.find(t => t.type === item.type) || ITINERARY_TYPES[5];
                         const TypeIcon = typeConfig.icon;
-                        const duration = calculateDuration(item.time, item.endTime);
+                        const duration = formatDuration(itemDurationMinutes(trip, item, currentDayPlan.date));
                         const showConnector = index < currentDayPlan.items.length - 1 && item.location && currentDayPlan.items[index+1].location;
                         
                         return (
                             <React.Fragment key={item.id}>
                                 <div 
                                     draggable={!item.isCompleted}
-                                    onDragStart={(e) => handleDragStart(e, index)}
-                                    onDragOver={(e) => handleDragOver(e, index)}
-                                    onDrop={(e) => handleDrop(e, index)}
-                                    className={`relative flex items-start gap-4 group transition-all duration-300 ${item.isCompleted ? 'opacity-50 grayscale' : ''} ${draggedItemIndex === index ? 'opacity-0' : ''}`}
+                                    onDragStart={(e) => handleDragStart(e, item.id)}
+                                    onDragEnd={() => setDraggedItemId(null)}
+                                    onDragOver={handleDragOver}
+                                    onDrop={(e) => handleDrop(e, selectedDayIndex, index)}
+                                    className={`relative flex items-start gap-4 group transition-all duration-300 ${item.isCompleted ? 'opacity-50 grayscale' : ''} ${draggedItemId === item.id ? 'opacity-0' : ''}`}
                                 >
                                     {/* Time Bubble */}
                                     <div className="relative z-10 flex flex-col items-center min-w-[50px] pt-1">
@@ -522,6 +650,7 @@ const ItineraryView = ({ trip, updateTrip, isPrinting = false }: { trip: Trip; u
                                                 <div className="flex items-center gap-2 mb-1 opacity-70 text-xs font-bold uppercase tracking-wider">
                                                     <TypeIcon size={12} />
                                                     {typeConfig.label}
+                                                    {isMultiDay(item, currentDayPlan.date) && <span className="normal-case">· {spanLengthLabel(item, currentDayPlan.date)}{item.type === 'accommodation' ? ` · 入住 ${item.bookingDetails?.checkInTime || item.time}` : ''}</span>}
                                                     {item.isImportant && <Icons.Star size={12} className="fill-gold-500 text-gold-500" />}
                                                 </div>
                                                 <h3 className={`text-lg font-bold leading-tight mb-2 ${item.isCompleted ? 'line-through text-gray-500' : ''}`}>{item.activity}</h3>
@@ -533,6 +662,14 @@ const ItineraryView = ({ trip, updateTrip, isPrinting = false }: { trip: Trip; u
                                                     {item.bookingImage && (
                                                         <button onClick={() => setImageModalUrl(item.bookingImage!)} className="inline-flex items-center gap-1 bg-white/20 hover:bg-white/30 text-current px-3 py-1.5 rounded-lg text-xs font-bold transition-colors no-print"><Icons.Image size={12} />憑證</button>
                                                     )}
+                                                    {(item.cost || 0) > 0 && (() => {
+                                                        const actual = linkedExpense(trip, item.id);
+                                                        return actual ? (
+                                                            <span className={`inline-flex items-center px-3 py-1.5 rounded-lg text-xs font-bold ${actual.twdAmount > plannedCostTwd(trip, item) ? 'bg-red-500/20' : 'bg-green-500/20'}`}>預計 {item.cost!.toLocaleString()} {plannedCurrency(item)} · 實際 {(actual.foreignAmount || actual.twdAmount).toLocaleString()} {actual.foreignAmount ? actual.currency : 'TWD'}</span>
+                                                        ) : (
+                                                            <button onClick={() => openActualCost(item)} className="inline-flex items-center gap-1 bg-white/20 hover:bg-white/30 text-current px-3 py-1.5 rounded-lg text-xs font-bold transition-colors no-print"><Icons.Wallet size={12} />預計 {item.cost!.toLocaleString()} {plannedCurrency(item)}</button>
+                                                        );
+                                                    })()}
                                                 </div>
 
                                                 {item.alternatives && item.alternatives.length > 0 && (
@@ -544,6 +681,12 @@ const ItineraryView = ({ trip, updateTrip, isPrinting = false }: { trip: Trip; u
                                                         <ul className="mt-2 pl-4 list-disc space-y-1">{item.alternatives.map((alt, idx) => (<li key={idx}>{alt}</li>))}</ul>
                                                     </details>
                                                 )}
+
+                                                {!item.isCompleted && scheduleIssues.filter(i => i.dayIndex === selectedDayIndex && i.itemId === item.id).map((issue, idx) => (
+                                                    <div key={idx} className={`mt-2 flex items-start gap-1 text-xs font-bold ${issue.severity === 'error' ? 'text-red-600' : 'text-amber-700'}`}>
+                                                        <Icons.Alert size={12} className="mt-0.5 flex-shrink-0" />{issue.message}
+                                                    </div>
+                                                ))}
                                             </div>
                                             
                                             <div className="flex items-center gap-2 ml-2 flex-row no-print">
@@ -567,17 +710,45 @@ const ItineraryView = ({ trip, updateTrip, isPrinting = false }: { trip: Trip; u
                         );
                     })
                 )}
+                {draggedItemId && currentDayPlan.items.length > 0 && (
+                    <div onDragOver={handleDragOver} onDrop={(e) => handleDrop(e, selectedDayIndex, currentDayPlan.items.filter(i => i.id !== draggedItemId).length)} className="ml-10 py-3 text-xs text-gray-500 border-2 border-dashed border-gray-700 rounded-xl text-center no-print">放到本日最後</div>
+                )}
             </div>
         </div>
       )}
 
       {/* Floating Add Button - HIDE IN PRINT */}
       <div className="fixed bottom-24 right-6 z-40 no-print">
-          <button onClick={openAddModal} className="bg-gold-500 text-dark-bg p-4 rounded-full shadow-lg shadow-gold-500/30 hover:scale-110 transition-transform"><Icons.Plus size={28} /></button>
+          <button onClick={() => openAddModal()} className="bg-gold-500 text-dark-bg p-4 rounded-full shadow-lg shadow-gold-500/30 hover:scale-110 transition-transform"><Icons.Plus size={28} /></button>
       </div>
 
+      {/* Trip Dates Modal */}
+      <Modal isOpen={isDaysModalOpen} onClose={() => setIsDaysModalOpen(false)} title="調整日期">
+          <div className="space-y-4">
+              <div>
+                  <label className="block text-xs text-gold-500 mb-1">出發日期 (整個行程一起移動)</label>
+                  <input type="date" value={trip.startDate} onChange={e => e.target.value && changeDays(shiftTrip(trip, e.target.value))} className="w-full bg-dark-bg border border-gray-700 rounded-lg p-3 text-white outline-none focus:border-gold-500" />
+              </div>
+              <div className="space-y-2">
+                  {trip.itinerary.map((day, idx) => (
+                      <div key={day.date} className="flex items-center gap-2 p-2 bg-dark-bg border border-gray-700 rounded-lg">
+                          <button onClick={() => changeDays(insertDay(trip, idx))} title="在此日之前插入一天" className="text-gray-500 hover:text-gold-400 p-1"><Icons.Plus size={14} /></button>
+                          <div className="flex-1 min-w-0">
+                              <div className="text-sm text-white">第 {idx + 1} 天 · {formatDate(day.date)}</div>
+                              <div className="text-[10px] text-gray-500">{day.items.length} 個行程</div>
+                          </div>
+                          <button disabled={idx === 0} onClick={() => changeDays(moveDay(trip, idx, idx - 1))} className="text-gray-500 hover:text-white p-1 disabled:opacity-20"><Icons.ChevronLeft size={16} className="rotate-90" /></button>
+                          <button disabled={idx === trip.itinerary.length - 1} onClick={() => changeDays(moveDay(trip, idx, idx + 1))} className="text-gray-500 hover:text-white p-1 disabled:opacity-20"><Icons.ChevronLeft size={16} className="-rotate-90" /></button>
+                          <button onClick={() => handleRemoveDay(idx)} className="text-gray-500 hover:text-red-400 p-1"><Icons.Trash size={14} /></button>
+                      </div>
+                  ))}
+              </div>
+              <Button onClick={() => changeDays(insertDay(trip, trip.itinerary.length))} variant="secondary" className="w-full">新增一天</Button>
+          </div>
+      </Modal>
+
       {/* Add/Edit Modal */}
-      <Modal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} title={modalMode === 'add' ? '新增行程' : '編輯行程'}>
+      <Modal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} title={isIdeaForm ? (modalMode === 'add' ? '新增點子' : '編輯點子') : (modalMode === 'add' ? '新增行程' : '編輯行程')}>
           <div className="space-y-4">
               <div className="grid grid-cols-3 gap-2 mb-4">
                   {ITINERARY_TYPES.map(t => (
@@ -585,13 +756,24 @@ const ItineraryView = ({ trip, updateTrip, isPrinting = false }: { trip: Trip; u
                   ))}
               </div>
               <div className="grid grid-cols-2 gap-3">
-                <div><label className="block text-xs text-gold-500 mb-1">開始時間</label><input type="time" value={itemForm.time} onChange={e => setItemForm({...itemForm, time: e.target.value})} className="w-full bg-dark-bg border border-gray-700 rounded-lg p-3 text-white focus:border-gold-500 outline-none" /></div>
+                <div><label className="block text-xs text-gold-500 mb-1">{isIdeaForm ? '開始時間 (選填)' : '開始時間'}</label><input type="time" value={itemForm.time} onChange={e => setItemForm({...itemForm, time: e.target.value})} className="w-full bg-dark-bg border border-gray-700 rounded-lg p-3 text-white focus:border-gold-500 outline-none" /></div>
                 <div><label className="block text-xs text-gold-500 mb-1">結束時間 (選填)</label><input type="time" value={itemForm.endTime || ''} onChange={e => setItemForm({...itemForm, endTime: e.target.value})} className="w-full bg-dark-bg border border-gray-700 rounded-lg p-3 text-white focus:border-gold-500 outline-none" /></div>
+                <div className={itemForm.type === 'flight' ? '' : 'col-span-2'}><label className="block text-xs text-gold-500 mb-1">{itemForm.type === 'flight' ? '出發時區' : '時區'}</label><TimeZoneSelect value={itemForm.timeZone} onChange={zone => setItemForm({...itemForm, timeZone: zone})} defaultLabel={`同行程 (${timeZoneLabel(trip.timeZone)})`} className="w-full bg-dark-bg border border-gray-700 rounded-lg p-2 text-white text-sm outline-none" /></div>
+                {itemForm.type === 'flight' && <div><label className="block text-xs text-gold-500 mb-1">抵達時區</label><TimeZoneSelect value={itemForm.endTimeZone} onChange={zone => setItemForm({...itemForm, endTimeZone: zone})} defaultLabel="同出發時區" className="w-full bg-dark-bg border border-gray-700 rounded-lg p-2 text-white text-sm outline-none" /></div>}
               </div>
+              {itemForm.type !== 'flight' && !isIdeaForm && (
+                  <div>
+                      <label className="block text-xs text-gold-500 mb-1">{itemForm.type === 'accommodation' ? '退房日期' : '結束日期 (多日行程)'}</label>
+                      <select value={itemForm.endDate || ''} onChange={e => setItemForm({...itemForm, endDate: e.target.value || undefined})} className="w-full bg-dark-bg border border-gray-700 rounded-lg p-3 text-white outline-none">
+                          <option value="">當天</option>
+                          {trip.itinerary.slice(selectedDayIndex + 1).map(d => <option key={d.date} value={d.date}>{formatDate(d.date)}</option>)}
+                      </select>
+                  </div>
+              )}
               <div><label className="block text-xs text-gold-500 mb-1">活動名稱</label><input value={itemForm.activity} onChange={e => setItemForm({...itemForm, activity: e.target.value})} placeholder="例如：參觀清水寺" className="w-full bg-dark-bg border border-gray-700 rounded-lg p-3 text-white focus:border-gold-500 outline-none" /></div>
               <div><label className="block text-xs text-gold-500 mb-1">地點 (用於導航/地圖)</label><input value={itemForm.location} onChange={e => setItemForm({...itemForm, location: e.target.value})} placeholder="例如：清水寺" className="w-full bg-dark-bg border border-gray-700 rounded-lg p-3 text-white focus:border-gold-500 outline-none" /></div>
               <div className="grid grid-cols-2 gap-3 p-3 bg-dark-surface rounded-lg border border-gray-700">
-                  <div><label className="block text-xs text-gold-500 mb-1">費用 (自動記帳)</label><div className="flex items-center bg-dark-bg border border-gray-600 rounded"><span className="pl-2 text-xs text-gray-400">$</span><input type="number" value={itemForm.cost || ''} onChange={e => setItemForm({...itemForm, cost: parseFloat(e.target.value)})} className="w-full bg-transparent p-2 text-white outline-none text-sm" placeholder="0" /></div></div>
+                  <div><label className="block text-xs text-gold-500 mb-1">預計費用</label><div className="flex items-center bg-dark-bg border border-gray-600 rounded"><input type="number" value={itemForm.cost || ''} onChange={e => setItemForm({...itemForm, cost: parseFloat(e.target.value)})} className="w-full min-w-0 bg-transparent p-2 text-white outline-none text-sm" placeholder="0" /><select value={plannedCurrency(itemForm as ItineraryItem)} onChange={e => setItemForm({...itemForm, costCurrency: e.target.value})} className="bg-transparent text-xs text-gray-400 outline-none pr-1">{currencyOptions(trip).map(c => <option key={c} value={c}>{c}</option>)}</select></div></div>
                   <div><label className="block text-xs text-gold-500 mb-1">下個點交通時間</label><input value={itemForm.travelTime || ''} onChange={e => setItemForm({...itemForm, travelTime: e.target.value})} className="w-full bg-dark-bg border border-gray-600 rounded p-2 text-white outline-none text-sm" placeholder="15 min" /></div>
               </div>
               <div className="flex items-center gap-3 p-3 bg-dark-surface rounded-lg border border-gray-700">
@@ -611,6 +793,22 @@ const ItineraryView = ({ trip, updateTrip, isPrinting = false }: { trip: Trip; u
           </div>
       </Modal>
 
+      <Modal isOpen={!!actualForm} onClose={() => setActualForm(null)} title="記錄實際花費">
+          {actualForm && (
+              <div className="space-y-4">
+                  <div className="text-sm text-gray-300">{actualForm.item.activity}</div>
+                  <div className="text-xs text-gray-500">預計 {(actualForm.item.cost || 0).toLocaleString()} {plannedCurrency(actualForm.item)}</div>
+                  <div className="flex gap-2">
+                      <input type="number" autoFocus value={actualForm.amount} onChange={e => setActualForm({ ...actualForm, amount: e.target.value })} className="flex-1 min-w-0 bg-dark-bg border border-gray-700 rounded-lg p-3 text-white outline-none" />
+                      <select value={actualForm.currency} onChange={e => setActualForm({ ...actualForm, currency: e.target.value })} className="bg-dark-bg border border-gray-700 rounded-lg p-3 text-white outline-none">
+                          {currencyOptions(trip).map(c => <option key={c} value={c}>{c}</option>)}
+                      </select>
+                  </div>
+                  <Button onClick={saveActualCost} className="w-full">加入記帳</Button>
+              </div>
+          )}
+      </Modal>
+
       {imageModalUrl && (
           <div className="fixed inset-0 bg-black/95 z-[70] flex items-center justify-center p-4 animate-fade-in no-print" onClick={() => setImageModalUrl(null)}>
               <div className="relative max-w-full max-h-full"><img src={imageModalUrl} alt="Booking" className="max-w-full max-h-[90vh] rounded-lg shadow-2xl" /><button onClick={() => setImageModalUrl(null)} className="absolute -top-12 right-0 text-white p-2"><Icons.Plus size={32} className="rotate-45" /></button></div>
@@ -622,17 +820,6 @@ const ItineraryView = ({ trip, updateTrip, isPrinting = false }: { trip: Trip; u
 
 // --- Expense Components ---
 
-const EXPENSE_CATEGORIES: { id: ExpenseCategory, label: string, color: string }[] = [
-    { id: 'flight', label: '機票', color: '#3b82f6' },
-    { id: 'accommodation', label: '住宿', color: '#ec4899' },
-    { id: 'internet', label: '網路', color: '#14b8a6' },
-    { id: 'transport', label: '交通', color: '#8b5cf6' },
-    { id: 'ticket', label: '門票', color: '#ef4444' },
-    { id: 'food', label: '飲食', color: '#f97316' },
-    { id: 'souvenir', label: '紀念品', color: '#eab308' },
-    { id: 'other', label: '其他', color: '#6b7280' },
-];
-
 // Lightweight SVG Pie Chart Component
 const PieChart = ({ data }: { data: { label: string, value: number, color: string }[] }) => {
     const total = data.reduce((acc, cur) => acc + cur.value, 0);
@@ -685,67 +872,126 @@ const PieChart = ({ data }: { data: { label: string, value: number, color: strin
     );
 };
 
+// Cumulative spend per day against an even pace to the budget, with the forecast dashed
+const BurnDownChart = ({ forecast, budget }: { forecast: BudgetForecast, budget: number }) => {
+    const { days, preTrip, elapsedDays, projectedTotal } = forecast;
+    if (days.length === 0) return <div className="w-full h-32 flex items-center justify-center text-gray-500">尚無行程日期</div>;
+
+    const max = Math.max(budget, projectedTotal, days[days.length - 1].cumulative, 1) * 1.05;
+    const x = (i: number) => (i / days.length) * 100;
+    const y = (v: number) => 60 - (v / max) * 60;
+    const actual = [`0,${y(preTrip)}`, ...days.slice(0, elapsedDays).map((d, i) => `${x(i + 1)},${y(d.cumulative)}`)].join(' ');
+    const lastActual = elapsedDays > 0 ? days[elapsedDays - 1].cumulative : preTrip;
+
+    return (
+        <div>
+            <svg viewBox="0 0 100 60" preserveAspectRatio="none" className="w-full h-40 bg-dark-bg rounded-lg border border-gray-800">
+                <line x1="0" y1={y(budget)} x2="100" y2={y(budget)} stroke="#ef4444" strokeWidth="0.5" strokeDasharray="1 1" vectorEffect="non-scaling-stroke" />
+                <line x1="0" y1={y(preTrip)} x2="100" y2={y(budget)} stroke="#6b7280" strokeWidth="0.5" vectorEffect="non-scaling-stroke" />
+                {elapsedDays < days.length && (
+                    <line x1={x(elapsedDays)} y1={y(lastActual)} x2="100" y2={y(projectedTotal)} stroke="#D4AF37" strokeWidth="1" strokeDasharray="2 2" vectorEffect="non-scaling-stroke" />
+                )}
+                <polyline points={actual} fill="none" stroke="#D4AF37" strokeWidth="2" vectorEffect="non-scaling-stroke" />
+            </svg>
+            <div className="flex justify-between text-[10px] text-gray-500 mt-1">
+                <span>{days[0].date.slice(5)}</span>
+                <span className="flex gap-3">
+                    <span className="text-gold-400">— 累計支出</span>
+                    <span className="text-gray-400">— 預算進度</span>
+                    <span className="text-red-400">-- 總預算</span>
+                </span>
+                <span>{days[days.length - 1].date.slice(5)}</span>
+            </div>
+        </div>
+    );
+};
+
 const ExpenseView = ({ trip, updateTrip, isPrinting = false }: { trip: Trip; updateTrip: (t: Trip) => void, isPrinting?: boolean }) => {
-    const [subTab, setSubTab] = useState<'budget' | 'list' | 'analysis'>('list');
+    const [subTab, setSubTab] = useState<'budget' | 'list' | 'analysis' | 'wallet' | 'taxfree'>('list');
     
     // Calculator State
     const [calcAmount, setCalcAmount] = useState('');
+    const [calcCurrency, setCalcCurrency] = useState(trip.currencyCode);
     const [calcRate, setCalcRate] = useState(trip.exchangeRate || 1);
     const [calcIsForeign, setCalcIsForeign] = useState(true);
-    const [calcPayment, setCalcPayment] = useState<PaymentMethod>('cash');
+    const [calcPayment, setCalcPayment] = useState<PaymentMethod>(defaultPaymentMethod(trip));
     
     // Modal & Form State
     const [isExpenseModalOpen, setIsExpenseModalOpen] = useState(false);
     const [modalMode, setModalMode] = useState<'add' | 'edit'>('add');
     const [expenseForm, setExpenseForm] = useState<Partial<Expense>>({
-        item: '', foreignAmount: 0, category: 'food', split: 'me', paymentMethod: 'cash', currency: trip.currencyCode
+        item: '', foreignAmount: 0, category: 'food', paymentMethod: defaultPaymentMethod(trip), currency: trip.currencyCode, ...newExpenseSplit(trip)
     });
     const [photoModal, setPhotoModal] = useState<string | null>(null);
+    const [isScanning, setIsScanning] = useState(false);
 
-    // History for Undo
-    const [history, setHistory] = useState<Expense[][]>([trip.expenses]);
-    const [historyPtr, setHistoryPtr] = useState(0);
+    // CSV Import State
+    const [csvRows, setCsvRows] = useState<string[][] | null>(null);
+    const [csvMapping, setCsvMapping] = useState<CsvColumnMapping>({ date: -1, item: -1, amount: -1, currency: -1, twdAmount: -1, category: -1 });
+    const [csvHasHeader, setCsvHasHeader] = useState(true);
+    const [csvNegativeCharges, setCsvNegativeCharges] = useState(false);
+    const [csvCurrency, setCsvCurrency] = useState(trip.currencyCode);
+    const [csvPayment, setCsvPayment] = useState<PaymentMethod>(defaultPaymentMethod(trip));
+    const [csvInclude, setCsvInclude] = useState<{ [row: number]: boolean }>({});
 
-    const today = new Date().toISOString().split('T')[0];
-    const isTodayInTrip = today >= trip.startDate && today <= trip.endDate;
+    // Rate Table State
+    const [newCurrency, setNewCurrency] = useState({ code: '', rate: '' });
 
-    const pushHistory = (newExpenses: Expense[]) => {
-        const newHistory = history.slice(0, historyPtr + 1);
-        newHistory.push(newExpenses);
-        setHistory(newHistory);
-        setHistoryPtr(newHistory.length - 1);
-        updateTrip({ ...trip, expenses: newExpenses });
-    };
+    // Cash Wallet State
+    const [cashForm, setCashForm] = useState({ type: 'atm' as CashEntryType, currency: trip.currencyCode, amount: '', twdCost: '', date: todayIn(trip.timeZone) });
+    const [cashCounts, setCashCounts] = useState<{ [currency: string]: string }>({});
 
-    const undo = () => {
-        if (historyPtr > 0) {
-            const prev = history[historyPtr - 1];
-            setHistoryPtr(historyPtr - 1);
-            updateTrip({ ...trip, expenses: prev });
-        }
-    };
+    // Quick Add State
+    const [quickText, setQuickText] = useState('');
 
-    const redo = () => {
-        if (historyPtr < history.length - 1) {
-            const next = history[historyPtr + 1];
-            setHistoryPtr(historyPtr + 1);
-            updateTrip({ ...trip, expenses: next });
-        }
-    };
+    // Filter State
+    const [expenseFilter, setExpenseFilter] = useState<ExpenseFilter>(EMPTY_EXPENSE_FILTER);
+    const [isFilterOpen, setIsFilterOpen] = useState(false);
+    const [newViewName, setNewViewName] = useState('');
+
+    // Tax Refund State
+    const [refundAmounts, setRefundAmounts] = useState<{ [claimKey: string]: string }>({});
+
+    // Payment Method State
+    const [newPaymentMethodName, setNewPaymentMethodName] = useState('');
+
+    // Traveller State
+    const [newTravellerName, setNewTravellerName] = useState('');
+    const [rateSource, setRateSource] = useState<RateSource>(loadRateSource);
+    const [isRerating, setIsRerating] = useState(false);
+
+    const today = todayIn(trip.timeZone);
+    const isTodayInTrip = today >= trip.startDate && today <= trip.endDate;
 
     // Actions
     const openAddExpense = () => {
         setModalMode('add');
-        setExpenseForm({ item: '', foreignAmount: undefined, twdAmount: undefined, category: 'food', split: 'me', paymentMethod: 'cash', currency: trip.currencyCode, exchangeRate: trip.exchangeRate });
+        updateExpenseRate({ item: '', foreignAmount: undefined, twdAmount: undefined, category: 'food', paymentMethod: defaultPaymentMethod(trip), currency: trip.currencyCode, exchangeRate: trip.exchangeRate, date: today, ...newExpenseSplit(trip) });
         setIsExpenseModalOpen(true);
     };
 
+    // Sets the form and fills in the rate for its currency and date: what the cash cost for
+    // cash payments, otherwise the provider's rate once known
+    const updateExpenseRate = (form: Partial<Expense>) => {
+        const currency = form.currency || trip.currencyCode;
+        const date = (form.date || today).split('T')[0];
+        const cashRate = isCashPayment(trip, form.paymentMethod || '') ? effectiveCashRate(trip, currency) : undefined;
+        if (cashRate) return setExpenseForm({ ...form, exchangeRate: cashRate });
+        setExpenseForm(form);
+        getRateProvider(trip, rateSource).getRate(currency, date).then(rate => {
+            if (rate === undefined) return;
+            setExpenseForm(prev => prev.currency === form.currency && prev.date === form.date && prev.paymentMethod === form.paymentMethod ? { ...prev, exchangeRate: rate } : prev);
+        }).catch(() => {}); // Already logged; the form keeps the rate it has
+    };
+
     const openEditExpense = (e: Expense) => {
         setModalMode('edit');
         setExpenseForm({ ...e });
         setIsExpenseModalOpen(true);
     };
 
+    const formBreakdown = paymentBreakdown(Number(expenseForm.foreignAmount) || 0, expenseForm.exchangeRate || 1, expenseForm.currency || trip.currencyCode, findPaymentMethod(trip, expenseForm.paymentMethod || ''));
+
     const handleSaveExpense = () => {
         if (!expenseForm.item || (expenseForm.foreignAmount === undefined && expenseForm.twdAmount === undefined)) return alert("請輸入項目與金額");
         
@@ -755,7 +1001,19 @@ const ExpenseView = ({ trip, updateTrip, isPrinting = false }: { trip: Trip; upd
         let finalTwd = expenseForm.twdAmount;
         
         if (!finalTwd || (modalMode === 'add' && fAmount > 0)) {
-             finalTwd = Math.round(fAmount * rate * (expenseForm.paymentMethod !== 'cash' ? 1.015 : 1));
+             finalTwd = Math.round(formBreakdown.charged);
+        }
+
+        const shares = (expenseForm.shares || []).filter(s => s.value > 0);
+        if (expenseForm.splitMode === 'exact') {
+            const total = expenseForm.currency === 'TWD' ? Number(finalTwd) : fAmount;
+            if (Math.abs(sharesTotal(shares) - total) > 0.01) return alert(`分攤金額合計 (${sharesTotal(shares)}) 需等於總額 (${total})`);
+        }
+
+        const lines = (expenseForm.lines || []).map(l => ({ ...l, shares: (l.shares || []).filter(s => s.value > 0) }));
+        if (lines.length > 0) {
+            const base = lineBaseAmount({ foreignAmount: fAmount, twdAmount: Number(finalTwd) });
+            if (!linesMatchTotal({ foreignAmount: fAmount, twdAmount: Number(finalTwd) }, lines)) return alert(`明細合計 (${linesTotal(lines)}) 需等於總額 (${base})`);
         }
 
         const newExpense: Expense = {
@@ -766,8 +1024,13 @@ const ExpenseView = ({ trip, updateTrip, isPrinting = false }: { trip: Trip; upd
             exchangeRate: rate,
             currency: expenseForm.currency || 'TWD',
             category: expenseForm.category || 'food',
-            paymentMethod: expenseForm.paymentMethod || 'cash',
-            split: expenseForm.split || 'me',
+            paymentMethod: expenseForm.paymentMethod || defaultPaymentMethod(trip),
+            paidBy: expenseForm.paidBy || trip.travellers[0]?.id || '',
+            splitMode: expenseForm.splitMode || 'weighted',
+            shares,
+            lines: lines.length > 0 ? lines : undefined,
+            taxRefund: expenseForm.taxRefund ? { ...expenseForm.taxRefund, store: expenseForm.taxRefund.store.trim() || expenseForm.item! } : undefined,
+            refundOf: expenseForm.refundOf,
             photo: expenseForm.photo,
             itemId: expenseForm.itemId,
             date: expenseForm.date || new Date().toISOString()
@@ -781,19 +1044,295 @@ const ExpenseView = ({ trip, updateTrip, isPrinting = false }: { trip: Trip; upd
             if (idx !== -1) newExpensesList[idx] = newExpense;
         }
 
-        pushHistory(newExpensesList);
+        updateTrip({ ...trip, expenses: newExpensesList });
         setIsExpenseModalOpen(false);
     };
 
     const deleteExpense = (id: string) => {
         if(!confirm("確定刪除此筆支出?")) return;
-        pushHistory(trip.expenses.filter(e => e.id !== id));
+        updateTrip({ ...trip, expenses: trip.expenses.filter(e => e.id !== id) });
     };
 
     const handlePhoto = (e: React.ChangeEvent<HTMLInputElement>) => {
         if (e.target.files?.[0]) compressImage(e.target.files[0]).then(base64 => setExpenseForm({...expenseForm, photo: base64}));
     };
 
+    // Reads merchant, total, currency, date and category off the attached receipt photo.
+    // Tax, service charge and discounts rarely appear as items, so a last line makes up the
+    // difference and the lines still add up to the total.
+    const scanReceipt = async () => {
+        if (!expenseForm.photo) return;
+        setIsScanning(true);
+        try {
+            const result = await analyzeReceipt(expenseForm.photo, { currency: expenseForm.currency || trip.currencyCode, date: (expenseForm.date || today).split('T')[0] });
+            const lines: ExpenseLine[] = result.lineItems.map(line => ({ id: generateId(), name: line.quantity > 1 ? `${line.name} ×${line.quantity}` : line.name, amount: line.amount, category: result.category }));
+            const difference = Math.round((result.total - linesTotal(lines)) * 100) / 100;
+            if (lines.length > 0 && difference !== 0) lines.push({ id: generateId(), name: difference > 0 ? '稅金 / 服務費' : '折扣', amount: difference, category: result.category });
+            updateExpenseRate({
+                ...expenseForm,
+                item: result.merchant || expenseForm.item,
+                foreignAmount: result.total,
+                twdAmount: undefined,
+                currency: result.currency,
+                date: result.date,
+                category: result.category,
+                lines: lines.length > 0 ? lines : expenseForm.lines
+            });
+        } catch (e) {
+            alert("收據辨識失敗，請稍後再試");
+        } finally {
+            setIsScanning(false);
+        }
+    };
+
+    // --- CSV Export / Import ---
+
+    const exportCsv = () => {
+        downloadBlob(new Blob([buildExpensesCsv(trip)], { type: 'text/csv;charset=utf-8' }), `expenses-${trip.destination}-${trip.startDate}.csv`);
+    };
+
+    const handleCsvFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        file.text().then(text => {
+            const rows = parseCsv(text);
+            if (rows.length === 0) return alert("檔案內沒有資料");
+            const mapping = guessCsvMapping(rows[0]);
+            setCsvRows(rows);
+            setCsvMapping(mapping);
+            setCsvHasHeader(true);
+            setCsvNegativeCharges(guessNegativeCharges(rows[0], mapping));
+            setCsvInclude({});
+        }).catch(() => alert("讀取檔案失敗"));
+    };
+
+    const csvPreview = useMemo(() => {
+        if (!csvRows) return [];
+        return mapCsvRows(trip, csvRows, { mapping: csvMapping, defaultCurrency: csvCurrency, paymentMethod: csvPayment, hasHeader: csvHasHeader, negativeCharges: csvNegativeCharges }, generateId);
+    }, [trip, csvRows, csvMapping, csvCurrency, csvPayment, csvHasHeader, csvNegativeCharges]);
+
+    // Duplicates and unreadable rows start unchecked
+    const isCsvRowIncluded = (index: number) => csvInclude[index] ?? (!csvPreview[index].duplicateOf && !csvPreview[index].error);
+
+    const confirmCsvImport = () => {
+        const imported = csvPreview.filter((row, i) => !row.error && isCsvRowIncluded(i)).map(row => row.expense);
+        if (imported.length === 0) return alert("未選擇任何項目");
+        updateTrip({ ...trip, expenses: [...trip.expenses, ...imported] });
+        setCsvRows(null);
+        alert(`已匯入 ${imported.length} 筆支出`);
+    };
+
+    // --- Currencies ---
+
+    const selectCalcCurrency = (code: string) => {
+        setCalcCurrency(code);
+        setCalcRate(rateForCurrency(trip, code) || 1);
+    };
+
+    const selectExpenseCurrency = (code: string) => {
+        updateExpenseRate({ ...expenseForm, currency: code, exchangeRate: rateForCurrency(trip, code) || expenseForm.exchangeRate });
+    };
+
+    const changeRateSource = (source: RateSource) => {
+        setRateSource(source);
+        saveRateSource(source);
+    };
+
+    const rerateAll = async () => {
+        if (!confirm("依每筆支出的日期重新查詢匯率，並重算台幣金額？手動修改過的台幣金額會被覆蓋。")) return;
+        setIsRerating(true);
+        try {
+            const result = await rerateExpenses(trip, getRateProvider(trip, rateSource));
+            if (result.updated > 0) updateTrip({ ...trip, expenses: result.expenses });
+            alert(`已更新 ${result.updated} 筆支出${result.missing.length > 0 ? `\n找不到匯率：${result.missing.join('、')}` : ''}`);
+        } catch (e) {
+            console.error("Failed to rerate expenses", e);
+            alert("重算匯率失敗，支出未變更。請確認匯率伺服器網址後再試一次。");
+        } finally {
+            setIsRerating(false);
+        }
+    };
+
+    const addCurrency = () => {
+        const code = newCurrency.code.trim().toUpperCase();
+        const rate = parseFloat(newCurrency.rate);
+        if (!code || !(rate > 0)) return alert("請輸入幣別代碼與匯率");
+        if (code === 'TWD' || rateForCurrency(trip, code) !== undefined) return alert("此幣別已存在");
+        updateTrip(setCurrencyRate(trip, code, rate));
+        setNewCurrency({ code: '', rate: '' });
+    };
+
+    const deleteCurrency = (code: string) => {
+        if (!confirm(`確定移除 ${code}？已記錄的支出會保留原匯率。`)) return;
+        updateTrip(removeCurrency(trip, code));
+    };
+
+    // --- Cash Wallet ---
+
+    const addCashEntry = () => {
+        const amount = parseFloat(cashForm.amount);
+        const twdCost = parseFloat(cashForm.twdCost);
+        if (!(amount > 0) || !(twdCost > 0)) return alert("請輸入取得的外幣金額與實際花費的台幣");
+        const entry: CashEntry = { id: generateId(), type: cashForm.type, currency: cashForm.currency, amount, twdCost, date: cashForm.date };
+        updateTrip({ ...trip, cashEntries: [...trip.cashEntries, entry] });
+        setCashForm({ ...cashForm, amount: '', twdCost: '' });
+    };
+
+    const deleteCashEntry = (id: string) => {
+        if (!confirm("確定刪除此筆紀錄?")) return;
+        updateTrip({ ...trip, cashEntries: trip.cashEntries.filter(e => e.id !== id) });
+    };
+
+    const countCash = (currency: string) => {
+        const counted = parseFloat(cashCounts[currency]);
+        if (isNaN(counted) || counted < 0) return alert("請輸入點算後的現金金額");
+        const adjustment = reconcileCash(trip, currency, counted, today, generateId());
+        setCashCounts({ ...cashCounts, [currency]: '' });
+        if (!adjustment) return alert("金額相符，無需調整");
+        updateTrip({ ...trip, cashEntries: [...trip.cashEntries, adjustment] });
+        alert(`已記錄差額 ${adjustment.amount > 0 ? '+' : ''}${adjustment.amount.toLocaleString()} ${currency}`);
+    };
+
+    const recalcCashExpenses = () => {
+        const result = applyCashRates(trip);
+        if (result.updated === 0) return alert("現金支出已使用實際換匯匯率");
+        if (!confirm(`以實際換匯匯率重算 ${result.updated} 筆現金支出的台幣金額？`)) return;
+        updateTrip(result.trip);
+    };
+
+    // --- Quick Add ---
+
+    const quickDraft = useMemo(() => parseQuickExpense(trip, quickText), [trip, quickText]);
+    const quickRate = quickDraft ? quickExpenseRate(trip, quickDraft) : undefined;
+
+    const saveQuickExpense = () => {
+        if (!quickDraft) return alert("請輸入金額，例如：拉麵 1200 現金");
+        if (quickRate === undefined) return alert(`未設定 ${quickDraft.currency} 匯率`);
+        updateTrip({ ...trip, expenses: [...trip.expenses, quickExpense(trip, quickDraft, quickRate, today, generateId())] });
+        setQuickText('');
+    };
+
+    // --- Filter & Saved Views ---
+
+    const updateFilter = (changes: Partial<ExpenseFilter>) => setExpenseFilter({ ...expenseFilter, ...changes });
+
+    const toggleInFilter = <K extends 'categories' | 'paymentMethods' | 'currencies'>(key: K, value: ExpenseFilter[K][number]) => {
+        const list = expenseFilter[key] as string[];
+        updateFilter({ [key]: list.includes(value) ? list.filter(v => v !== value) : [...list, value] } as Partial<ExpenseFilter>);
+    };
+
+    const saveView = () => {
+        const name = newViewName.trim();
+        if (!name) return alert("請輸入檢視名稱");
+        updateTrip({ ...trip, expenseViews: [...trip.expenseViews, { id: generateId(), name, filter: expenseFilter }] });
+        setNewViewName('');
+    };
+
+    const deleteView = (id: string) => {
+        if (!confirm("確定刪除此檢視?")) return;
+        updateTrip({ ...trip, expenseViews: trip.expenseViews.filter(v => v.id !== id) });
+    };
+
+    // --- Tax Refund ---
+
+    const changeClaimStatus = (claim: TaxRefundClaim, status: TaxRefundStatus) => {
+        if (status !== 'received') {
+            if (claim.refund && !confirm("將刪除已記錄的退稅金額，確定？")) return;
+            return updateTrip(setClaimStatus(trip, claim, status));
+        }
+        const amount = parseFloat(refundAmounts[claim.key]);
+        if (!(amount > 0)) return alert("請輸入退稅金額");
+        updateTrip(setClaimStatus(trip, claim, status, { amount, date: today, id: generateId() }));
+        setRefundAmounts({ ...refundAmounts, [claim.key]: '' });
+    };
+
+    // --- Payment Methods ---
+
+    const updatePaymentMethod = (id: string, changes: Partial<PaymentMethodConfig>) => {
+        updateTrip({ ...trip, paymentMethods: trip.paymentMethods.map(m => m.id === id ? { ...m, ...changes } : m) });
+    };
+
+    const addPaymentMethod = () => {
+        const name = newPaymentMethodName.trim();
+        if (!name) return;
+        updateTrip({ ...trip, paymentMethods: [...trip.paymentMethods, { id: generateId(), name, feePercent: 0, fixedFee: 0, cashbackPercent: 0, isCash: false }] });
+        setNewPaymentMethodName('');
+    };
+
+    const deletePaymentMethod = (id: string) => {
+        if (isPaymentMethodUsed(trip, id)) return alert("已有支出使用此支付方式，無法刪除");
+        if (!confirm(`確定刪除 ${paymentMethodName(trip, id)}？`)) return;
+        updateTrip({ ...trip, paymentMethods: trip.paymentMethods.filter(m => m.id !== id) });
+    };
+
+    // --- Travellers ---
+
+    const travellerName = (id: string) => trip.travellers.find(t => t.id === id)?.name || '未知';
+
+    const addTraveller = () => {
+        const name = newTravellerName.trim();
+        if (!name) return;
+        updateTrip({ ...trip, travellers: [...trip.travellers, { id: generateId(), name }] });
+        setNewTravellerName('');
+    };
+
+    const renameTraveller = (id: string, name: string) => {
+        updateTrip({ ...trip, travellers: trip.travellers.map(t => t.id === id ? { ...t, name } : t) });
+    };
+
+    const deleteTraveller = (id: string) => {
+        if (isTravellerUsed(trip, id)) return alert("此旅伴已有付款或分攤紀錄，無法刪除");
+        if (!confirm(`確定刪除 ${travellerName(id)}？`)) return;
+        updateTrip({
+            ...trip,
+            travellers: trip.travellers.filter(t => t.id !== id),
+            expenses: trip.expenses.map(e => ({ ...e, shares: e.shares.filter(s => s.travellerId !== id) }))
+        });
+    };
+
+    const shareValue = (travellerId: string) => expenseForm.shares?.find(s => s.travellerId === travellerId)?.value || 0;
+
+    const setShareValue = (travellerId: string, value: number) => {
+        const others = (expenseForm.shares || []).filter(s => s.travellerId !== travellerId);
+        setExpenseForm({ ...expenseForm, shares: value > 0 ? [...others, { travellerId, value }] : others });
+    };
+
+    // Switching modes resets to an even split, since weights and amounts don't convert
+    const setSplitMode = (mode: SplitMode) => {
+        const total = expenseTotal({ ...expenseForm, twdAmount: expenseForm.twdAmount || 0, foreignAmount: expenseForm.foreignAmount || 0 } as Expense);
+        const each = mode === 'exact' && trip.travellers.length > 0 ? Math.round(total / trip.travellers.length * 100) / 100 : 1;
+        setExpenseForm({ ...expenseForm, splitMode: mode, shares: trip.travellers.map(t => ({ travellerId: t.id, value: each })) });
+    };
+
+    // --- Expense Lines ---
+
+    const formLines = expenseForm.lines || [];
+    const formLinesTotal = linesTotal(formLines);
+    const formLinesBase = lineBaseAmount({ foreignAmount: Number(expenseForm.foreignAmount) || 0, twdAmount: Number(expenseForm.twdAmount) || 0 });
+
+    const addExpenseLine = () => {
+        const remaining = Math.max(0, Math.round((formLinesBase - formLinesTotal) * 100) / 100);
+        setExpenseForm({ ...expenseForm, lines: [...formLines, { id: generateId(), name: '', amount: remaining, category: expenseForm.category || 'food' }] });
+    };
+
+    const updateExpenseLine = (id: string, changes: Partial<ExpenseLine>) =>
+        setExpenseForm({ ...expenseForm, lines: formLines.map(l => l.id === id ? { ...l, ...changes } : l) });
+
+    const removeExpenseLine = (id: string) => {
+        const lines = formLines.filter(l => l.id !== id);
+        setExpenseForm({ ...expenseForm, lines: lines.length > 0 ? lines : undefined });
+    };
+
+    // A line shared by nobody follows the expense's split; tapping travellers gives it its own
+    const toggleLineTraveller = (line: ExpenseLine, travellerId: string) => {
+        const shares = line.shares || [];
+        const next = shares.some(s => s.travellerId === travellerId)
+            ? shares.filter(s => s.travellerId !== travellerId)
+            : [...shares, { travellerId, value: 1 }];
+        updateExpenseLine(line.id, { shares: next.length > 0 ? next : undefined });
+    };
+
     const updateBudget = (cat: ExpenseCategory, amount: number) => {
         const newBudgets = [...(trip.budgets || [])];
         const idx = newBudgets.findIndex(b => b.category === cat);
@@ -807,38 +1346,59 @@ const ExpenseView = ({ trip, updateTrip, isPrinting = false }: { trip: Trip; upd
     const totalBudget = trip.budget;
     const remainingBudget = totalBudget - totalSpent;
     
-    // Split Stats
-    const splitStats = useMemo(() => {
-        const stats = { me: 0, parents: 0, shared: 0 };
-        (trip.expenses || []).forEach(e => {
-            if (stats[e.split] !== undefined) stats[e.split] += e.twdAmount;
-        });
-        return stats;
-    }, [trip.expenses]);
+    // Ledger
+    const balances = useMemo(() => travellerBalances(trip), [trip]);
+    const transfers = useMemo(() => settleUp(balances), [balances]);
+
+    const subtotals = useMemo(() => currencySubtotals(trip.expenses || []), [trip.expenses]);
+    const methodStats = useMemo(() => paymentMethodStats(trip), [trip]);
+    const wallets = useMemo(() => cashWallets(trip), [trip]);
+    const claims = useMemo(() => taxRefundClaims(trip), [trip]);
+    const refunded = useMemo(() => refundedTotal(trip), [trip]);
+    const spentByCategory = useMemo(() => categoryTotals(trip.expenses || []), [trip.expenses]);
+    const forecast = useMemo(() => budgetForecast(trip, today), [trip, today]);
+    const plan = useMemo(() => planReport(trip), [trip]);
+
+    // Totals and the pie chart follow the filter
+    const filterActive = isFilterActive(expenseFilter);
+    const filteredExpenses = useMemo(() => filterExpenses(trip.expenses || [], expenseFilter), [trip.expenses, expenseFilter]);
+    // A category filter counts only the matching lines of an itemized expense
+    const filteredCategories = expenseFilter.categories.length > 0 ? expenseFilter.categories : undefined;
+    const filteredByCategory = useMemo(() => categoryTotals(filteredExpenses, filteredCategories), [filteredExpenses, filteredCategories]);
+    const filteredSpent = filteredCategories
+        ? Math.round(filteredCategories.reduce((sum, c) => sum + (filteredByCategory[c] || 0), 0))
+        : filteredExpenses.reduce((sum, e) => sum + e.twdAmount, 0);
 
     // Pie Chart Data
     const pieData = EXPENSE_CATEGORIES.map(cat => ({
         label: cat.label,
-        value: (trip.expenses || []).filter(e => e.category === cat.id).reduce((sum, e) => sum + e.twdAmount, 0),
+        value: filteredByCategory[cat.id] || 0,
         color: cat.color
     }));
 
     const renderCalculator = () => {
         const amount = parseFloat(calcAmount) || 0;
-        const total = calcPayment !== 'cash' ? (amount * calcRate * 1.015) : (amount * calcRate);
+        const result = paymentBreakdown(amount, calcRate, calcCurrency, findPaymentMethod(trip, calcPayment));
         return (
             <Card className="mb-6 bg-gradient-to-br from-gray-900 to-black border-gold-500/50">
                 <div className="flex justify-between items-center mb-4"><h3 className="text-gold-500 font-bold flex items-center gap-2"><Icons.Wallet size={20}/> 即時換算</h3><div className="text-xs text-gray-500">Rate: {calcRate}</div></div>
                 <div className="flex gap-2 mb-3">
-                    <div className="flex-1"><label className="text-xs text-gray-400 block mb-1">金額 ({calcIsForeign ? trip.currencyCode : 'TWD'})</label><input type="number" value={calcAmount} onChange={e => {setCalcAmount(e.target.value);}} className="w-full bg-dark-surface border border-gray-700 rounded p-2 text-xl font-mono text-white outline-none" placeholder="0"/></div>
+                    <div className="w-20"><label className="text-xs text-gray-400 block mb-1">幣別</label><select value={calcCurrency} onChange={e => selectCalcCurrency(e.target.value)} className="w-full bg-dark-surface border border-gray-700 rounded p-2 text-white outline-none h-[46px]">{currencyOptions(trip).map(c => <option key={c} value={c}>{c}</option>)}</select></div>
+                    <div className="flex-1"><label className="text-xs text-gray-400 block mb-1">金額 ({calcIsForeign ? calcCurrency : 'TWD'})</label><input type="number" value={calcAmount} onChange={e => {setCalcAmount(e.target.value);}} className="w-full bg-dark-surface border border-gray-700 rounded p-2 text-xl font-mono text-white outline-none" placeholder="0"/></div>
                     <div className="w-24"><label className="text-xs text-gray-400 block mb-1">匯率</label><input type="number" value={calcRate} onChange={e => setCalcRate(parseFloat(e.target.value))} className="w-full bg-dark-surface border border-gray-700 rounded p-2 text-white outline-none" /></div>
                 </div>
                 <div className="flex gap-2 mb-4 overflow-x-auto no-scrollbar">
-                     <button onClick={() => setCalcPayment('cash')} className={`px-3 py-1 rounded-full text-xs border ${calcPayment === 'cash' ? 'bg-green-500/20 text-green-400 border-green-500' : 'border-gray-700 text-gray-400'}`}>現金</button>
-                     <button onClick={() => setCalcPayment('cube_card')} className={`px-3 py-1 rounded-full text-xs border ${calcPayment === 'cube_card' ? 'bg-pink-500/20 text-pink-400 border-pink-500' : 'border-gray-700 text-gray-400'}`}>Cube卡 (+1.5%)</button>
-                     <button onClick={() => setCalcPayment('credit_card')} className={`px-3 py-1 rounded-full text-xs border ${calcPayment === 'credit_card' ? 'bg-blue-500/20 text-blue-400 border-blue-500' : 'border-gray-700 text-gray-400'}`}>信用卡 (+1.5%)</button>
+                     {trip.paymentMethods.map(m => (
+                         <button key={m.id} onClick={() => setCalcPayment(m.id)} className={`px-3 py-1 rounded-full text-xs border whitespace-nowrap ${calcPayment === m.id ? 'bg-gold-500/20 text-gold-400 border-gold-500' : 'border-gray-700 text-gray-400'}`}>{m.name}{m.feePercent > 0 && ` (+${m.feePercent}%)`}</button>
+                     ))}
                 </div>
-                <div className="bg-dark-bg p-3 rounded-lg flex justify-between items-center border border-gray-800"><span className="text-gray-400 text-sm">試算結果 (TWD)</span><span className="text-2xl font-bold text-gold-400">{Math.round(total).toLocaleString()}</span></div>
+                <div className="bg-dark-bg p-3 rounded-lg flex justify-between items-center border border-gray-800"><span className="text-gray-400 text-sm">試算結果 (TWD)</span><span className="text-2xl font-bold text-gold-400">{Math.round(result.charged).toLocaleString()}</span></div>
+                {(result.fee > 0 || result.reward > 0) && (
+                    <div className="flex justify-between text-xs text-gray-500 mt-2 px-1">
+                        <span>手續費 {Math.round(result.fee).toLocaleString()} · 回饋 {Math.round(result.reward).toLocaleString()}</span>
+                        <span>實際成本 <span className="text-white font-bold">{Math.round(result.net).toLocaleString()}</span></span>
+                    </div>
+                )}
             </Card>
         );
     };
@@ -846,8 +1406,8 @@ const ExpenseView = ({ trip, updateTrip, isPrinting = false }: { trip: Trip; upd
     return (
         <div className="pb-24">
             <div className="flex justify-center gap-4 mb-6 sticky top-16 bg-dark-bg/95 py-2 z-40 no-print">
-                {['list', 'analysis', 'budget'].map((t) => (
-                    <button key={t} onClick={() => setSubTab(t as any)} className={`px-4 py-2 rounded-full text-sm font-bold transition-all ${subTab === t ? 'bg-gold-500 text-black shadow-lg shadow-gold-500/20' : 'text-gray-500 bg-dark-surface'}`}>{t === 'budget' ? '預算' : t === 'list' ? '記帳' : '分析'}</button>
+                {['list', 'analysis', 'budget', 'wallet', 'taxfree'].map((t) => (
+                    <button key={t} onClick={() => setSubTab(t as any)} className={`px-4 py-2 rounded-full text-sm font-bold transition-all ${subTab === t ? 'bg-gold-500 text-black shadow-lg shadow-gold-500/20' : 'text-gray-500 bg-dark-surface'}`}>{t === 'budget' ? '預算' : t === 'list' ? '記帳' : t === 'wallet' ? '現金' : t === 'taxfree' ? '退稅' : '分析'}</button>
                 ))}
             </div>
             
@@ -860,12 +1420,69 @@ const ExpenseView = ({ trip, updateTrip, isPrinting = false }: { trip: Trip; upd
                         <div className="space-y-4">{EXPENSE_CATEGORIES.map(cat => (<div key={cat.id} className="flex items-center gap-3"><span className="w-16 text-sm text-gray-300">{cat.label}</span><div className="flex-1 bg-dark-bg border border-gray-700 rounded-lg flex items-center px-3"><span className="text-gray-500 text-xs">$</span><input type="number" value={trip.budgets?.find(b => b.category === cat.id)?.amount || ''} onChange={e => updateBudget(cat.id, parseFloat(e.target.value))} placeholder="未設定" className="bg-transparent w-full p-2 text-white outline-none text-right"/></div></div>))}</div>
                     </Card>
 
+                    {/* Rate Table */}
+                    <Card className="break-inside-avoid">
+                        <h3 className="text-lg font-bold text-white mb-4">幣別與匯率</h3>
+                        <div className="space-y-2">
+                            {tripCurrencies(trip).map((c, i) => (
+                                <div key={c.code} className="flex items-center gap-3">
+                                    <span className="w-16 text-sm text-gray-300 font-mono">{c.code}{i === 0 && <span className="text-[10px] text-gold-500 ml-1">主要</span>}</span>
+                                    <div className="flex-1 bg-dark-bg border border-gray-700 rounded-lg flex items-center px-3"><span className="text-gray-500 text-xs whitespace-nowrap">1 {c.code} =</span><input type="number" value={c.rate || ''} onChange={e => updateTrip(setCurrencyRate(trip, c.code, parseFloat(e.target.value) || 0))} className="bg-transparent w-full p-2 text-white outline-none text-right"/><span className="text-gray-500 text-xs">TWD</span></div>
+                                    {i > 0 ? <button onClick={() => deleteCurrency(c.code)} className="text-gray-500 hover:text-red-400 p-1 no-print"><Icons.Trash size={16}/></button> : <span className="w-6"></span>}
+                                </div>
+                            ))}
+                            <div className="flex items-center gap-3 pt-2 no-print">
+                                <input value={newCurrency.code} onChange={e => setNewCurrency({ ...newCurrency, code: e.target.value })} placeholder="幣別 (如 KRW)" className="w-28 bg-dark-bg border border-gray-700 rounded-lg p-2 text-white text-sm outline-none uppercase" />
+                                <input type="number" value={newCurrency.rate} onChange={e => setNewCurrency({ ...newCurrency, rate: e.target.value })} placeholder="匯率 (TWD)" className="flex-1 min-w-0 bg-dark-bg border border-gray-700 rounded-lg p-2 text-white text-sm outline-none" />
+                                <button onClick={addCurrency} className="text-gold-500 hover:text-gold-300 p-1"><Icons.Plus size={20}/></button>
+                            </div>
+                        </div>
+                        <div className="mt-4 pt-4 border-t border-gray-800 space-y-2 no-print">
+                            <div className="flex items-center gap-3">
+                                <span className="w-16 text-sm text-gray-300">匯率來源</span>
+                                <select value={rateSource.type} onChange={e => changeRateSource(e.target.value === 'http' ? { type: 'http', url: '' } : { type: 'manual' })} className="flex-1 bg-dark-bg border border-gray-700 rounded-lg p-2 text-white text-sm outline-none">
+                                    <option value="manual">手動匯率表</option>
+                                    <option value="http">匯率伺服器 (依日期)</option>
+                                </select>
+                            </div>
+                            {rateSource.type === 'http' && (
+                                <>
+                                    <input value={rateSource.url} onChange={e => changeRateSource({ type: 'http', url: e.target.value })} placeholder="http://localhost:8080" className="w-full bg-dark-bg border border-gray-700 rounded-lg p-2 text-white text-sm outline-none font-mono" />
+                                    <p className="text-[10px] text-gray-500">需提供 TWD 報價的 Frankfurter 相容伺服器（公開的 api.frankfurter.app 沒有 TWD）；查不到時改用上方匯率表。</p>
+                                </>
+                            )}
+                            <Button onClick={rerateAll} disabled={isRerating} variant="secondary" className="w-full text-sm">{isRerating ? '查詢匯率中...' : '依日期重算所有支出'}</Button>
+                        </div>
+                    </Card>
+
+                    {/* Payment Methods */}
+                    <Card className="break-inside-avoid">
+                        <h3 className="text-lg font-bold text-white mb-4">支付方式</h3>
+                        <div className="space-y-3">
+                            <div className="grid grid-cols-[1fr_3.5rem_3.5rem_3.5rem_2rem_1.5rem] gap-2 text-[10px] text-gray-500 px-1"><span>名稱</span><span>海外手續費%</span><span>每筆固定</span><span>回饋%</span><span>現金</span><span></span></div>
+                            {trip.paymentMethods.map(m => (
+                                <div key={m.id} className="grid grid-cols-[1fr_3.5rem_3.5rem_3.5rem_2rem_1.5rem] gap-2 items-center">
+                                    <input value={m.name} onChange={e => updatePaymentMethod(m.id, { name: e.target.value })} className="min-w-0 bg-dark-bg border border-gray-700 rounded-lg p-2 text-white text-sm outline-none" />
+                                    <input type="number" min="0" step="0.1" value={m.feePercent} onChange={e => updatePaymentMethod(m.id, { feePercent: parseFloat(e.target.value) || 0 })} className="min-w-0 bg-dark-bg border border-gray-700 rounded-lg p-2 text-white text-sm text-right outline-none" />
+                                    <input type="number" min="0" value={m.fixedFee} onChange={e => updatePaymentMethod(m.id, { fixedFee: parseFloat(e.target.value) || 0 })} className="min-w-0 bg-dark-bg border border-gray-700 rounded-lg p-2 text-white text-sm text-right outline-none" />
+                                    <input type="number" min="0" step="0.1" value={m.cashbackPercent} onChange={e => updatePaymentMethod(m.id, { cashbackPercent: parseFloat(e.target.value) || 0 })} className="min-w-0 bg-dark-bg border border-gray-700 rounded-lg p-2 text-white text-sm text-right outline-none" />
+                                    <input type="checkbox" checked={m.isCash} onChange={e => updatePaymentMethod(m.id, { isCash: e.target.checked })} title="付款時扣除現金錢包" className="accent-gold-500 justify-self-center" />
+                                    {trip.paymentMethods.length > 1 ? <button onClick={() => deletePaymentMethod(m.id)} className="text-gray-500 hover:text-red-400 no-print"><Icons.Trash size={16}/></button> : <span></span>}
+                                </div>
+                            ))}
+                            <div className="flex items-center gap-3 pt-2 no-print">
+                                <input value={newPaymentMethodName} onChange={e => setNewPaymentMethodName(e.target.value)} onKeyDown={e => e.key === 'Enter' && addPaymentMethod()} placeholder="新增卡片或錢包 (如 Suica、Wise)" className="flex-1 bg-dark-bg border border-gray-700 rounded-lg p-2 text-white text-sm outline-none" />
+                                <button onClick={addPaymentMethod} className="text-gold-500 hover:text-gold-300 p-1"><Icons.Plus size={20}/></button>
+                            </div>
+                        </div>
+                    </Card>
+
                     {/* Budget Bars - Moved here from Analysis */}
                     <Card className="break-inside-avoid">
                         <h3 className="text-lg font-bold text-white mb-4">預算執行率</h3>
                         <div className="space-y-4">
                             {EXPENSE_CATEGORIES.map(cat => {
-                                const spent = (trip.expenses || []).filter(e => e.category === cat.id).reduce((sum, e) => sum + e.twdAmount, 0);
+                                const spent = spentByCategory[cat.id] || 0;
                                 const budget = trip.budgets?.find(b => b.category === cat.id)?.amount || 0;
                                 const percent = budget > 0 ? Math.min((spent / budget) * 100, 100) : (spent > 0 ? 100 : 0);
                                 
@@ -893,18 +1510,107 @@ const ExpenseView = ({ trip, updateTrip, isPrinting = false }: { trip: Trip; upd
                 <div className="animate-fade-in mt-6">
                     <div className="no-print">{renderCalculator()}</div>
                     
+                    {/* Quick Add */}
+                    <div className="mb-4 no-print">
+                        <div className="flex gap-2">
+                            <input value={quickText} onChange={e => setQuickText(e.target.value)} onKeyDown={e => e.key === 'Enter' && saveQuickExpense()} placeholder="快速記帳：拉麵 1200 現金 parents" className="flex-1 min-w-0 bg-dark-bg border border-gray-700 rounded-lg p-3 text-white text-sm outline-none focus:border-gold-500" />
+                            <button onClick={saveQuickExpense} disabled={!quickDraft} className="px-3 rounded-lg border border-gold-500/50 text-gold-400 disabled:opacity-30"><Icons.Plus size={18}/></button>
+                        </div>
+                        {quickText.trim() && (
+                            <div className="mt-2 p-2 bg-dark-surface border border-gray-800 rounded-lg text-xs">
+                                {quickDraft ? (
+                                    <div className="flex flex-wrap items-center gap-1">
+                                        <span className="font-bold text-white mr-1">{quickDraft.item}</span>
+                                        <span className="font-mono text-gold-400">{quickDraft.amount.toLocaleString()} {quickDraft.currency}</span>
+                                        <span className="bg-gray-700 text-gray-300 px-1 rounded">{EXPENSE_CATEGORIES.find(c => c.id === quickDraft.category)?.label}</span>
+                                        <span className="bg-gray-800 text-gray-400 px-1 rounded border border-gray-700">{paymentMethodName(trip, quickDraft.paymentMethod)}</span>
+                                        {trip.travellers.length > 1 && <span className="bg-gray-800 text-gray-400 px-1 rounded border border-gray-700">{travellerName(quickDraft.paidBy)} 付 · {quickDraft.shares.map(s => travellerName(s.travellerId)).join('、')} 分</span>}
+                                        <span className="ml-auto font-mono text-gray-400">{quickRate !== undefined ? `≈ ${Math.round(paymentBreakdown(quickDraft.amount, quickRate, quickDraft.currency, findPaymentMethod(trip, quickDraft.paymentMethod)).charged).toLocaleString()} TWD` : <span className="text-red-400">未設定 {quickDraft.currency} 匯率</span>}</span>
+                                    </div>
+                                ) : <span className="text-gray-500">找不到金額</span>}
+                            </div>
+                        )}
+                    </div>
+
                     <div className="flex justify-between items-center mb-4 no-print">
                         <Button onClick={openAddExpense} className="flex-1 shadow-gold-500/20"><Icons.Plus size={18} className="mr-2"/> 新增支出</Button>
-                        <div className="flex gap-2 ml-4">
-                            <button onClick={undo} disabled={historyPtr === 0} className="p-3 bg-dark-surface rounded-full text-gray-400 disabled:opacity-30 border border-gray-700"><Icons.ChevronLeft size={20}/></button>
-                            <button onClick={redo} disabled={historyPtr === history.length - 1} className="p-3 bg-dark-surface rounded-full text-gray-400 disabled:opacity-30 border border-gray-700"><Icons.ChevronLeft className="rotate-180" size={20}/></button>
+                    </div>
+                    <div className="flex justify-end gap-2 mb-4 no-print">
+                        <button onClick={exportCsv} className="flex items-center gap-1 text-xs text-gray-400 hover:text-gold-400 px-2 py-1 rounded-lg border border-gray-700 bg-dark-surface"><Icons.FileText size={14} /> 匯出 CSV</button>
+                        <label className="flex items-center gap-1 text-xs text-gray-400 hover:text-gold-400 px-2 py-1 rounded-lg border border-gray-700 bg-dark-surface cursor-pointer">
+                            <Icons.Download size={14} /> 匯入帳單 CSV
+                            <input type="file" accept=".csv,text/csv" onChange={handleCsvFile} className="hidden" />
+                        </label>
+                    </div>
+
+                    {/* Query Bar */}
+                    <div className="mb-4 space-y-2 no-print">
+                        <div className="flex gap-2">
+                            <input value={expenseFilter.text} onChange={e => updateFilter({ text: e.target.value })} placeholder="搜尋項目、店家、明細" className="flex-1 min-w-0 bg-dark-bg border border-gray-700 rounded-lg p-2 text-white text-sm outline-none" />
+                            <select value={expenseFilter.sort} onChange={e => updateFilter({ sort: e.target.value as ExpenseSort })} className="bg-dark-bg border border-gray-700 rounded-lg p-2 text-white text-xs outline-none">
+                                {(Object.keys(EXPENSE_SORT_LABELS) as ExpenseSort[]).map(sort => <option key={sort} value={sort}>{EXPENSE_SORT_LABELS[sort]}</option>)}
+                            </select>
+                            <button onClick={() => setIsFilterOpen(!isFilterOpen)} className={`px-3 rounded-lg text-xs border ${isFilterOpen || filterActive ? 'border-gold-500 text-gold-400' : 'border-gray-700 text-gray-400'}`}>篩選</button>
                         </div>
+                        {trip.expenseViews.length > 0 && (
+                            <div className="flex flex-wrap gap-1">
+                                {trip.expenseViews.map(v => (
+                                    <span key={v.id} className="inline-flex items-center rounded-full border border-gray-700 bg-dark-surface text-xs">
+                                        <button onClick={() => setExpenseFilter(v.filter)} className="pl-3 pr-1 py-1 text-gray-300 hover:text-gold-400">{v.name}</button>
+                                        <button onClick={() => deleteView(v.id)} className="pr-2 text-gray-600 hover:text-red-400"><Icons.Plus size={10} className="rotate-45" /></button>
+                                    </span>
+                                ))}
+                            </div>
+                        )}
+                        {isFilterOpen && (
+                            <div className="bg-dark-surface border border-gray-800 rounded-xl p-3 space-y-3 text-xs">
+                                {[
+                                    { key: 'categories' as const, label: '分類', options: EXPENSE_CATEGORIES.map(c => ({ id: c.id as string, label: c.label })) },
+                                    { key: 'paymentMethods' as const, label: '支付', options: trip.paymentMethods.map(m => ({ id: m.id, label: m.name })) },
+                                    { key: 'currencies' as const, label: '幣別', options: currencyOptions(trip).map(c => ({ id: c, label: c })) }
+                                ].map(group => (
+                                    <div key={group.key} className="flex flex-wrap items-center gap-1">
+                                        <span className="w-8 text-gray-500">{group.label}</span>
+                                        {group.options.map(o => (
+                                            <button key={o.id} onClick={() => toggleInFilter(group.key, o.id as any)} className={`px-2 py-0.5 rounded border ${(expenseFilter[group.key] as string[]).includes(o.id) ? 'bg-gold-500 text-black border-gold-500' : 'text-gray-400 border-gray-700'}`}>{o.label}</button>
+                                        ))}
+                                    </div>
+                                ))}
+                                {trip.travellers.length > 1 && (
+                                    <div className="grid grid-cols-2 gap-2">
+                                        <select value={expenseFilter.paidBy || ''} onChange={e => updateFilter({ paidBy: e.target.value || undefined })} className="bg-dark-bg border border-gray-700 rounded p-1.5 text-white outline-none">
+                                            <option value="">任何付款人</option>
+                                            {trip.travellers.map(t => <option key={t.id} value={t.id}>{t.name} 付</option>)}
+                                        </select>
+                                        <select value={expenseFilter.sharedBy || ''} onChange={e => updateFilter({ sharedBy: e.target.value || undefined })} className="bg-dark-bg border border-gray-700 rounded p-1.5 text-white outline-none">
+                                            <option value="">任何分攤</option>
+                                            {trip.travellers.map(t => <option key={t.id} value={t.id}>{t.name} 有分攤</option>)}
+                                        </select>
+                                    </div>
+                                )}
+                                <div className="grid grid-cols-2 gap-2">
+                                    <input type="date" value={expenseFilter.dateFrom || ''} onChange={e => updateFilter({ dateFrom: e.target.value || undefined })} className="bg-dark-bg border border-gray-700 rounded p-1.5 text-white outline-none" />
+                                    <input type="date" value={expenseFilter.dateTo || ''} onChange={e => updateFilter({ dateTo: e.target.value || undefined })} className="bg-dark-bg border border-gray-700 rounded p-1.5 text-white outline-none" />
+                                    <input type="number" value={expenseFilter.minAmount ?? ''} onChange={e => updateFilter({ minAmount: e.target.value === '' ? undefined : parseFloat(e.target.value) })} placeholder="最低 TWD" className="bg-dark-bg border border-gray-700 rounded p-1.5 text-white outline-none" />
+                                    <input type="number" value={expenseFilter.maxAmount ?? ''} onChange={e => updateFilter({ maxAmount: e.target.value === '' ? undefined : parseFloat(e.target.value) })} placeholder="最高 TWD" className="bg-dark-bg border border-gray-700 rounded p-1.5 text-white outline-none" />
+                                </div>
+                                <div className="flex gap-2 pt-2 border-t border-gray-800">
+                                    <input value={newViewName} onChange={e => setNewViewName(e.target.value)} onKeyDown={e => e.key === 'Enter' && saveView()} placeholder="檢視名稱 (如：父母代墊)" className="flex-1 min-w-0 bg-dark-bg border border-gray-700 rounded p-1.5 text-white outline-none" />
+                                    <button onClick={saveView} className="px-2 text-gold-400 hover:text-gold-300">儲存檢視</button>
+                                    <button onClick={() => setExpenseFilter(EMPTY_EXPENSE_FILTER)} className="px-2 text-gray-400 hover:text-white">清除</button>
+                                </div>
+                            </div>
+                        )}
                     </div>
 
                     <div className="space-y-3">
-                        <h4 className="text-lg font-bold mb-2 text-white print:text-black">支出明細</h4>
-                        {(trip.expenses || []).length === 0 ? <div className="text-center text-gray-500 py-10">尚無支出紀錄</div> : 
-                         (trip.expenses || []).slice().reverse().map(e => (
+                        <div className="flex justify-between items-baseline mb-2">
+                            <h4 className="text-lg font-bold text-white print:text-black">支出明細</h4>
+                            {filterActive && <span className="text-xs text-gray-400">{filteredExpenses.length} 筆 · <span className="font-mono text-gold-400">{filteredSpent.toLocaleString()}</span> TWD</span>}
+                        </div>
+                        {(trip.expenses || []).length === 0 ? <div className="text-center text-gray-500 py-10">尚無支出紀錄</div> :
+                         filteredExpenses.length === 0 ? <div className="text-center text-gray-500 py-10">沒有符合篩選條件的支出</div> :
+                         filteredExpenses.map(e => (
                             <div key={e.id} className="bg-dark-surface p-4 rounded-xl border border-gray-800 flex gap-4 items-center break-inside-avoid group relative">
                                 <div onClick={() => e.photo && setPhotoModal(e.photo)} className={`w-12 h-12 rounded-lg flex-shrink-0 flex items-center justify-center bg-gray-900 overflow-hidden cursor-pointer ${e.photo ? 'border border-gold-500/50' : ''}`}>{e.photo ? <img src={e.photo} className="w-full h-full object-cover" /> : <Icons.Wallet className="text-gray-700" />}</div>
                                 <div className="flex-1 min-w-0 cursor-pointer" onClick={() => !isPrinting && openEditExpense(e)}>
@@ -917,7 +1623,9 @@ const ExpenseView = ({ trip, updateTrip, isPrinting = false }: { trip: Trip; upd
                                             <span>{e.currency} {e.foreignAmount}</span>
                                             <span className="flex items-center gap-1 mt-1">
                                                 <span className="bg-gray-700 text-gray-300 px-1 rounded">{EXPENSE_CATEGORIES.find(c => c.id === e.category)?.label}</span>
-                                                <span className="bg-gray-800 text-gray-400 px-1 rounded border border-gray-700">{e.split === 'me' ? '個人' : e.split === 'parents' ? '父母' : '分帳'}</span>
+                                                <span className="bg-gray-800 text-gray-400 px-1 rounded border border-gray-700">{paymentMethodName(trip, e.paymentMethod)}</span>
+                                                <span className="bg-gray-800 text-gray-400 px-1 rounded border border-gray-700">{travellerName(e.paidBy)} 付{e.shares.length > 1 ? ` · ${e.shares.length} 人分` : ''}</span>
+                                                {e.taxRefund && <span className="bg-green-900/40 text-green-400 px-1 rounded border border-green-800">退稅 · {TAX_REFUND_STATUS_LABELS[e.taxRefund.status]}</span>}
                                             </span>
                                         </div>
                                     </div>
@@ -932,13 +1640,121 @@ const ExpenseView = ({ trip, updateTrip, isPrinting = false }: { trip: Trip; upd
                 </div>
             )}
             
+            {(subTab === 'taxfree' || isPrinting) && (
+                <div className="animate-fade-in space-y-4 mt-6 break-inside-avoid">
+                    {claims.length === 0 && <div className="text-center text-gray-500 py-6">尚無可退稅的消費，在支出中勾選「可退稅」即可追蹤</div>}
+                    {claims.map(claim => (
+                        <Card key={claim.key} className="break-inside-avoid">
+                            <div className="flex justify-between items-start mb-2">
+                                <div>
+                                    <h3 className="text-lg font-bold text-white">{claim.store}</h3>
+                                    <div className="text-[10px] text-gray-500">
+                                        {claim.date && `${claim.date} · `}
+                                        {claim.rule ? `${claim.rule.region} ${claim.rule.perDay ? '同店同日' : '同店'}滿 ${claim.rule.minimum.toLocaleString()} ${claim.currency}` : '無最低金額規定'}
+                                    </div>
+                                </div>
+                                <div className="text-right">
+                                    <div className="font-mono font-bold text-white">{claim.total.toLocaleString()} <span className="text-xs text-gray-500">{claim.currency}</span></div>
+                                    <div className={`text-[10px] ${claim.eligible ? 'text-green-400' : 'text-red-400'}`}>{claim.eligible ? '符合退稅門檻' : `尚差 ${(claim.rule!.minimum - claim.total).toLocaleString()}`}</div>
+                                </div>
+                            </div>
+                            <div className="space-y-1 mb-3">
+                                {claim.purchases.map(p => (
+                                    <div key={p.id} className="flex justify-between text-xs text-gray-400"><span className="truncate">{p.item}</span><span className="font-mono">{(p.currency === 'TWD' ? p.twdAmount : p.foreignAmount).toLocaleString()}</span></div>
+                                ))}
+                            </div>
+                            <div className="flex gap-1 mb-2 no-print">
+                                {(['pending', 'claimed'] as TaxRefundStatus[]).map(status => (
+                                    <button key={status} onClick={() => changeClaimStatus(claim, status)} className={`flex-1 py-1.5 rounded-lg text-xs border ${claim.status === status ? 'bg-gold-500 text-black border-gold-500' : 'text-gray-400 border-gray-700'}`}>{TAX_REFUND_STATUS_LABELS[status]}</button>
+                                ))}
+                            </div>
+                            {claim.refund ? (
+                                <div className="flex justify-between items-center text-sm p-2 bg-green-900/20 rounded-lg border border-green-800">
+                                    <span className="text-green-400">{TAX_REFUND_STATUS_LABELS.received} {Math.abs(claim.refund.foreignAmount || claim.refund.twdAmount).toLocaleString()} {claim.refund.foreignAmount ? claim.currency : 'TWD'}</span>
+                                    <span className="font-mono text-green-400">{claim.refund.twdAmount.toLocaleString()} TWD</span>
+                                </div>
+                            ) : (
+                                <div className="flex gap-2 no-print">
+                                    <input type="number" value={refundAmounts[claim.key] || ''} onChange={e => setRefundAmounts({ ...refundAmounts, [claim.key]: e.target.value })} placeholder={`退稅金額 (${claim.currency})`} className="flex-1 min-w-0 bg-dark-bg border border-gray-700 rounded-lg p-2 text-white text-sm outline-none" />
+                                    <button onClick={() => changeClaimStatus(claim, 'received')} className="px-3 py-2 rounded-lg text-xs font-bold border border-green-700/50 text-green-400 hover:bg-green-900/20">{TAX_REFUND_STATUS_LABELS.received}</button>
+                                </div>
+                            )}
+                        </Card>
+                    ))}
+                </div>
+            )}
+
+            {(subTab === 'wallet' || isPrinting) && (
+                <div className="animate-fade-in space-y-4 mt-6 break-inside-avoid">
+                    {wallets.length === 0 && <div className="text-center text-gray-500 py-6">尚無現金紀錄，換匯或提款後在下方記錄</div>}
+                    {wallets.map(w => (
+                        <Card key={w.currency} className="break-inside-avoid">
+                            <div className="flex justify-between items-end mb-3">
+                                <h3 className="text-lg font-bold text-white font-mono">{w.currency}</h3>
+                                <span className={`text-2xl font-mono font-bold ${w.balance < 0 ? 'text-red-400' : 'text-gold-400'}`}>{w.balance.toLocaleString(undefined, { maximumFractionDigits: 2 })}</span>
+                            </div>
+                            <div className="grid grid-cols-3 gap-2 text-center text-xs mb-3">
+                                <div className="p-2 bg-dark-bg rounded-lg border border-gray-700"><div className="text-gray-500 mb-1">換入</div><div className="text-white font-bold">{w.received.toLocaleString()}</div></div>
+                                <div className="p-2 bg-dark-bg rounded-lg border border-gray-700"><div className="text-gray-500 mb-1">花費</div><div className="text-white font-bold">{w.spent.toLocaleString()}</div></div>
+                                <div className="p-2 bg-dark-bg rounded-lg border border-gray-700"><div className="text-gray-500 mb-1">調整</div><div className={`font-bold ${w.adjusted < 0 ? 'text-red-400' : 'text-white'}`}>{w.adjusted.toLocaleString()}</div></div>
+                            </div>
+                            {w.effectiveRate && (
+                                <div className="text-xs text-gray-400 mb-3">實際匯率 <span className="text-white font-mono">{w.effectiveRate.toFixed(4)}</span>{rateForCurrency(trip, w.currency) && <span className="text-gray-500"> (匯率表 {rateForCurrency(trip, w.currency)})</span>}</div>
+                            )}
+                            <div className="flex gap-2 no-print">
+                                <input type="number" value={cashCounts[w.currency] || ''} onChange={e => setCashCounts({ ...cashCounts, [w.currency]: e.target.value })} placeholder="點算後的現金" className="flex-1 bg-dark-bg border border-gray-700 rounded-lg p-2 text-white text-sm outline-none" />
+                                <button onClick={() => countCash(w.currency)} className="px-3 py-2 rounded-lg text-xs font-bold border border-gold-700/50 text-gold-400 hover:bg-gold-900/20">點算現金</button>
+                            </div>
+                        </Card>
+                    ))}
+
+                    <Card className="no-print">
+                        <h3 className="text-lg font-bold text-white mb-4">換匯 / 提款</h3>
+                        <div className="space-y-3">
+                            <div className="grid grid-cols-2 gap-3">
+                                <select value={cashForm.type} onChange={e => setCashForm({ ...cashForm, type: e.target.value as CashEntryType })} className="bg-dark-bg border border-gray-700 rounded-lg p-2 text-white text-sm outline-none">
+                                    <option value="atm">ATM 提款</option>
+                                    <option value="exchange">換匯</option>
+                                </select>
+                                <input type="date" value={cashForm.date} onChange={e => setCashForm({ ...cashForm, date: e.target.value })} className="bg-dark-bg border border-gray-700 rounded-lg p-2 text-white text-sm outline-none" />
+                            </div>
+                            <div className="grid grid-cols-[5rem_1fr_1fr] gap-3">
+                                <select value={cashForm.currency} onChange={e => setCashForm({ ...cashForm, currency: e.target.value })} className="bg-dark-bg border border-gray-700 rounded-lg p-2 text-white text-sm outline-none">
+                                    {currencyOptions(trip).filter(c => c !== 'TWD').map(c => <option key={c} value={c}>{c}</option>)}
+                                </select>
+                                <input type="number" value={cashForm.amount} onChange={e => setCashForm({ ...cashForm, amount: e.target.value })} placeholder={`取得 ${cashForm.currency}`} className="min-w-0 bg-dark-bg border border-gray-700 rounded-lg p-2 text-white text-sm outline-none" />
+                                <input type="number" value={cashForm.twdCost} onChange={e => setCashForm({ ...cashForm, twdCost: e.target.value })} placeholder="花費 TWD (含手續費)" className="min-w-0 bg-dark-bg border border-gray-700 rounded-lg p-2 text-white text-sm outline-none" />
+                            </div>
+                            <Button onClick={addCashEntry} className="w-full text-sm">記錄</Button>
+                            {wallets.some(w => w.effectiveRate) && <Button onClick={recalcCashExpenses} variant="secondary" className="w-full text-sm">以實際匯率重算現金支出</Button>}
+                        </div>
+                    </Card>
+
+                    {trip.cashEntries.length > 0 && (
+                        <div className="space-y-2">
+                            <h4 className="text-sm font-bold text-gray-400">現金紀錄</h4>
+                            {trip.cashEntries.slice().reverse().map(entry => (
+                                <div key={entry.id} className="flex items-center gap-3 p-3 bg-dark-surface rounded-xl border border-gray-800 text-sm group">
+                                    <span className="text-xs text-gray-500 w-20 shrink-0">{entry.date.split('T')[0]}</span>
+                                    <span className="flex-1 text-gray-300">{entry.type === 'atm' ? 'ATM 提款' : entry.type === 'exchange' ? '換匯' : entry.note || '點算調整'}</span>
+                                    <span className={`font-mono ${entry.amount < 0 ? 'text-red-400' : 'text-white'}`}>{entry.amount > 0 ? '+' : ''}{entry.amount.toLocaleString()} {entry.currency}</span>
+                                    {entry.twdCost > 0 && <span className="text-xs text-gray-500 font-mono">{entry.twdCost.toLocaleString()} TWD</span>}
+                                    <button onClick={() => deleteCashEntry(entry.id)} className="text-gray-600 hover:text-red-400 opacity-0 group-hover:opacity-100 no-print"><Icons.Trash size={14}/></button>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+
             {(subTab === 'analysis' || isPrinting) && (
                 <div className="animate-fade-in space-y-6 mt-6">
                     {/* Total Summary */}
                     <div className="grid grid-cols-2 gap-4 break-inside-avoid">
                         <Card className="bg-gradient-to-br from-gray-800 to-gray-900 border-gold-500/30">
-                            <div className="text-xs text-gray-400 mb-1">總支出 (TWD)</div>
-                            <div className="text-2xl font-mono font-bold text-gold-400">{totalSpent.toLocaleString()}</div>
+                            <div className="text-xs text-gray-400 mb-1">總支出 (TWD){filterActive && <span className="text-gold-500"> · 篩選中</span>}</div>
+                            <div className="text-2xl font-mono font-bold text-gold-400">{filteredSpent.toLocaleString()}</div>
+                            {refunded > 0 && <div className="text-[10px] text-green-400 mt-1">已扣除退稅 {refunded.toLocaleString()}</div>}
                         </Card>
                         <Card className="bg-gradient-to-br from-gray-800 to-gray-900 border-gray-700">
                             <div className="text-xs text-gray-400 mb-1">剩餘預算</div>
@@ -946,6 +1762,110 @@ const ExpenseView = ({ trip, updateTrip, isPrinting = false }: { trip: Trip; upd
                         </Card>
                     </div>
 
+                    {/* Daily Burn-down */}
+                    <Card className="break-inside-avoid">
+                        <h3 className="text-lg font-bold text-white mb-4 flex items-center gap-2"><Icons.TrendingUp size={20} className="text-gold-500"/> 每日花費</h3>
+                        <div className="grid grid-cols-3 gap-2 mb-4 text-center">
+                            <div className="p-2 bg-dark-bg rounded-lg border border-gray-700">
+                                <div className="text-[10px] text-gray-500">每日可用</div>
+                                <div className="font-mono text-white">{Math.round(forecast.dailyAllowance).toLocaleString()}</div>
+                            </div>
+                            <div className="p-2 bg-dark-bg rounded-lg border border-gray-700">
+                                <div className="text-[10px] text-gray-500">行前支出</div>
+                                <div className="font-mono text-white">{Math.round(forecast.preTrip).toLocaleString()}</div>
+                            </div>
+                            <div className="p-2 bg-dark-bg rounded-lg border border-gray-700">
+                                <div className="text-[10px] text-gray-500">預估總花費</div>
+                                <div className={`font-mono font-bold ${forecast.projectedTotal > totalBudget ? 'text-red-400' : 'text-green-400'}`}>{Math.round(forecast.projectedTotal).toLocaleString()}</div>
+                            </div>
+                        </div>
+                        <BurnDownChart forecast={forecast} budget={totalBudget} />
+                        <div className="space-y-1 mt-4">
+                            {forecast.days.map((d, i) => (
+                                <div key={d.date} className={`flex items-center gap-2 text-xs ${i < forecast.elapsedDays ? '' : 'opacity-50'}`}>
+                                    <span className="w-16 text-gray-400 font-mono">D{i + 1} {d.date.slice(5)}</span>
+                                    <div className="flex-1 h-1.5 bg-gray-800 rounded-full overflow-hidden">
+                                        <div className={`h-full ${d.spent > forecast.dailyAllowance ? 'bg-red-500' : 'bg-gold-500'}`} style={{ width: `${forecast.dailyAllowance > 0 ? Math.min(d.spent / forecast.dailyAllowance * 100, 100) : (d.spent > 0 ? 100 : 0)}%` }}></div>
+                                    </div>
+                                    <span className={`w-16 text-right font-mono ${d.spent > forecast.dailyAllowance ? 'text-red-400' : 'text-gray-300'}`}>{Math.round(d.spent).toLocaleString()}</span>
+                                </div>
+                            ))}
+                        </div>
+                        {forecast.categories.length > 0 && (
+                            <div className="mt-4 pt-4 border-t border-gray-800 space-y-1">
+                                {forecast.categories.map(c => (
+                                    <div key={c.category} className="flex items-center gap-2 text-xs text-red-400">
+                                        <Icons.Alert size={14} />
+                                        <span className="flex-1">{EXPENSE_CATEGORIES.find(cat => cat.id === c.category)?.label} {c.spent > c.budget ? '已超出預算' : '依目前速度將超出預算'}</span>
+                                        <span className="font-mono">{Math.round(c.projected).toLocaleString()} / {c.budget.toLocaleString()}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </Card>
+
+                    {/* Planned vs. Actual */}
+                    {(plan.days.some(d => d.planned > 0) || plan.categories.some(c => c.planned > 0)) && (
+                        <Card className="break-inside-avoid">
+                            <h3 className="text-lg font-bold text-white mb-4 flex items-center gap-2"><Icons.Calendar size={20} className="text-purple-400"/> 預計 vs 實際</h3>
+                            {[
+                                { title: '每日', rows: plan.days.map((d, i) => ({ ...d, label: `D${i + 1} ${d.key.slice(5)}` })) },
+                                { title: '分類', rows: plan.categories.map(c => ({ ...c, label: EXPENSE_CATEGORIES.find(cat => cat.id === c.key)?.label || c.key })) }
+                            ].map(section => (
+                                <div key={section.title} className="mb-4 last:mb-0">
+                                    <div className="grid grid-cols-4 text-[10px] text-gray-500 border-b border-gray-800 pb-1 mb-1">
+                                        <span>{section.title}</span><span className="text-right">預計</span><span className="text-right">實際</span><span className="text-right">差額</span>
+                                    </div>
+                                    {section.rows.filter(r => r.planned > 0 || r.actual > 0).map(r => {
+                                        const variance = Math.round(r.actual - r.planned);
+                                        return (
+                                            <div key={r.key} className="grid grid-cols-4 text-xs py-0.5 font-mono">
+                                                <span className="text-gray-300 font-sans truncate">{r.label}</span>
+                                                <span className="text-right text-gray-400">{Math.round(r.planned).toLocaleString()}</span>
+                                                <span className="text-right text-white">{Math.round(r.actual).toLocaleString()}</span>
+                                                <span className={`text-right ${variance > 0 ? 'text-red-400' : variance < 0 ? 'text-green-400' : 'text-gray-500'}`}>{variance > 0 ? '+' : ''}{variance.toLocaleString()}</span>
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            ))}
+                            {plan.preTrip > 0 && <div className="text-[10px] text-gray-500">另有行前支出 {Math.round(plan.preTrip).toLocaleString()} TWD 未列入每日</div>}
+                        </Card>
+                    )}
+
+                    {/* Currency Subtotals */}
+                    {subtotals.length > 0 && (
+                        <Card className="break-inside-avoid">
+                            <h3 className="text-lg font-bold text-white mb-4 flex items-center gap-2"><Icons.Wallet size={20} className="text-gold-500"/> 幣別小計</h3>
+                            <div className="space-y-2">
+                                {subtotals.map(t => (
+                                    <div key={t.code} className="flex justify-between items-center text-sm p-2 bg-dark-bg rounded-lg border border-gray-700">
+                                        <span className="text-gray-300"><span className="font-mono font-bold text-white">{t.code}</span> {t.amount.toLocaleString(undefined, { maximumFractionDigits: 2 })} <span className="text-xs text-gray-500">({t.count} 筆)</span></span>
+                                        <span className="font-mono text-gold-400">{t.twd.toLocaleString()} <span className="text-xs text-gold-600">TWD</span></span>
+                                    </div>
+                                ))}
+                            </div>
+                        </Card>
+                    )}
+
+                    {/* Payment Method Analysis */}
+                    {methodStats.length > 0 && (
+                        <Card className="break-inside-avoid">
+                            <h3 className="text-lg font-bold text-white mb-4 flex items-center gap-2"><Icons.Wallet size={20} className="text-green-400"/> 支付方式</h3>
+                            <div className="space-y-2">
+                                {methodStats.map(m => (
+                                    <div key={m.methodId} className="p-2 bg-dark-bg rounded-lg border border-gray-700 text-sm">
+                                        <div className="flex justify-between items-center">
+                                            <span className="font-bold text-white">{paymentMethodName(trip, m.methodId)} <span className="text-xs text-gray-500 font-normal">({m.count} 筆)</span></span>
+                                            <span className="font-mono text-gold-400">{Math.round(m.net).toLocaleString()} <span className="text-xs text-gold-600">TWD</span></span>
+                                        </div>
+                                        <div className="text-[10px] text-gray-500 mt-1">刷卡/支付 {Math.round(m.charged).toLocaleString()} · 手續費 {Math.round(m.fees).toLocaleString()} · 回饋 {Math.round(m.rewards).toLocaleString()}</div>
+                                    </div>
+                                ))}
+                            </div>
+                        </Card>
+                    )}
+
                     {/* Chart Analysis */}
                     <Card className="break-inside-avoid">
                         <h3 className="text-lg font-bold text-white mb-6 flex items-center gap-2"><Icons.TrendingUp size={20} className="text-gold-500"/> 類別佔比</h3>
@@ -955,26 +1875,93 @@ const ExpenseView = ({ trip, updateTrip, isPrinting = false }: { trip: Trip; upd
                     {/* Split Analysis */}
                     <Card className="break-inside-avoid">
                         <h3 className="text-lg font-bold text-white mb-4 flex items-center gap-2"><Icons.Wallet size={20} className="text-blue-400"/> 分帳統計</h3>
-                        <div className="grid grid-cols-3 gap-2 text-center">
-                            <div className="p-2 bg-dark-bg rounded-lg border border-gray-700">
-                                <div className="text-xs text-gray-500 mb-1">個人 (Me)</div>
-                                <div className="text-sm font-bold text-white">${splitStats.me.toLocaleString()}</div>
-                            </div>
-                            <div className="p-2 bg-dark-bg rounded-lg border border-gray-700">
-                                <div className="text-xs text-gray-500 mb-1">父母 (Parents)</div>
-                                <div className="text-sm font-bold text-white">${splitStats.parents.toLocaleString()}</div>
-                            </div>
-                            <div className="p-2 bg-dark-bg rounded-lg border border-gray-700">
-                                <div className="text-xs text-gray-500 mb-1">公費 (Shared)</div>
-                                <div className="text-sm font-bold text-white">${splitStats.shared.toLocaleString()}</div>
+                        <div className="space-y-2">
+                            {balances.map(b => {
+                                const traveller = trip.travellers.find(t => t.id === b.travellerId);
+                                return (
+                                    <div key={b.travellerId} className="flex items-center gap-2 p-2 bg-dark-bg rounded-lg border border-gray-700">
+                                        {traveller ? (
+                                            <input value={traveller.name} onChange={e => renameTraveller(traveller.id, e.target.value)} className="flex-1 min-w-0 bg-transparent text-sm font-bold text-white outline-none" />
+                                        ) : <span className="flex-1 text-sm text-gray-500">未知</span>}
+                                        <div className="text-right text-[10px] text-gray-500 leading-tight">
+                                            <div>付 ${Math.round(b.paid).toLocaleString()} / 應付 ${Math.round(b.owed).toLocaleString()}</div>
+                                            <div className={`text-sm font-bold ${Math.round(b.net) < 0 ? 'text-red-400' : 'text-green-400'}`}>{Math.round(b.net) > 0 ? '+' : ''}{Math.round(b.net).toLocaleString()}</div>
+                                        </div>
+                                        {traveller && trip.travellers.length > 1 && <button onClick={() => deleteTraveller(traveller.id)} className="text-gray-600 hover:text-red-400 p-1 no-print"><Icons.Trash size={14}/></button>}
+                                    </div>
+                                );
+                            })}
+                            <div className="flex gap-2 no-print">
+                                <input value={newTravellerName} onChange={e => setNewTravellerName(e.target.value)} onKeyDown={e => e.key === 'Enter' && addTraveller()} placeholder="新增旅伴" className="flex-1 bg-dark-bg border border-gray-700 rounded-lg p-2 text-white text-sm outline-none" />
+                                <button onClick={addTraveller} className="text-gold-500 hover:text-gold-300 p-1"><Icons.Plus size={20}/></button>
                             </div>
                         </div>
+                        {transfers.length > 0 && (
+                            <div className="mt-4 pt-4 border-t border-gray-800">
+                                <div className="text-xs text-gold-500 font-bold mb-2">結算 ({transfers.length} 筆轉帳)</div>
+                                <div className="space-y-1">
+                                    {transfers.map((t, i) => (
+                                        <div key={i} className="flex items-center gap-2 text-sm">
+                                            <span className="text-white">{travellerName(t.from)}</span>
+                                            <Icons.ArrowRight size={14} className="text-gray-500" />
+                                            <span className="text-white flex-1">{travellerName(t.to)}</span>
+                                            <span className="font-mono text-gold-400">${t.amount.toLocaleString()}</span>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
                     </Card>
                 </div>
             )}
 
             {photoModal && <div className="fixed inset-0 bg-black/95 z-[70] flex items-center justify-center p-4 no-print" onClick={() => setPhotoModal(null)}><img src={photoModal} className="max-w-full max-h-[90vh] rounded shadow-2xl" /></div>}
 
+            {/* CSV Import Modal */}
+            <Modal isOpen={!!csvRows} onClose={() => setCsvRows(null)} title="匯入 CSV">
+                {csvRows && (
+                    <div className="space-y-4">
+                        <label className="flex items-center gap-2 text-sm text-gray-300"><input type="checkbox" checked={csvHasHeader} onChange={e => setCsvHasHeader(e.target.checked)} className="accent-gold-500" />第一列為標題</label>
+                        <label className="flex items-center gap-2 text-sm text-gray-300"><input type="checkbox" checked={csvNegativeCharges} onChange={e => setCsvNegativeCharges(e.target.checked)} className="accent-gold-500" />負數金額為消費，正數為退款（銀行帳戶明細）</label>
+                        <div className="space-y-2">
+                            <div className="text-xs text-gold-500 font-bold">欄位對應</div>
+                            {CSV_FIELDS.map(f => (
+                                <div key={f.id} className="flex items-center gap-2">
+                                    <span className="w-24 text-xs text-gray-400">{f.label}{f.required && ' *'}</span>
+                                    <select value={csvMapping[f.id]} onChange={e => setCsvMapping({ ...csvMapping, [f.id]: parseInt(e.target.value) })} className="flex-1 bg-dark-bg border border-gray-700 rounded p-2 text-white text-xs">
+                                        <option value={-1}>(無)</option>
+                                        {csvRows[0].map((header, i) => <option key={i} value={i}>{csvHasHeader ? header : `第 ${i + 1} 欄 (${header})`}</option>)}
+                                    </select>
+                                </div>
+                            ))}
+                        </div>
+                        <div className="grid grid-cols-2 gap-3">
+                            <div><label className="block text-xs text-gray-500 mb-1">預設幣別</label><input value={csvCurrency} onChange={e => setCsvCurrency(e.target.value.toUpperCase())} className="w-full bg-dark-bg border border-gray-700 rounded p-2 text-white text-sm" /></div>
+                            <div>
+                                <label className="block text-xs text-gray-500 mb-1">支付方式</label>
+                                <select value={csvPayment} onChange={e => setCsvPayment(e.target.value as PaymentMethod)} className="w-full bg-dark-bg border border-gray-700 rounded p-2 text-white text-sm">
+                                    {trip.paymentMethods.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                                </select>
+                            </div>
+                        </div>
+                        <div className="space-y-1 max-h-60 overflow-y-auto">
+                            {csvPreview.map((row, i) => (
+                                <label key={i} className={`flex items-center gap-2 p-2 rounded text-xs border ${row.error ? 'border-red-900/50 opacity-50' : row.duplicateOf ? 'border-yellow-600/50 bg-yellow-900/10' : 'border-gray-800'}`}>
+                                    <input type="checkbox" disabled={!!row.error} checked={!row.error && isCsvRowIncluded(i)} onChange={e => setCsvInclude({ ...csvInclude, [i]: e.target.checked })} className="accent-gold-500" />
+                                    <span className="text-gray-500 w-20 shrink-0">{row.expense.date}</span>
+                                    <span className="flex-1 truncate text-white">{row.expense.item}</span>
+                                    <span className="font-mono text-gold-400">{row.expense.currency} {row.expense.currency === 'TWD' ? row.expense.twdAmount : row.expense.foreignAmount}</span>
+                                    {row.error && <span className="text-red-400">{row.error}</span>}
+                                    {row.duplicateOf && <span className="text-yellow-500 shrink-0" title={row.duplicateOf.item}>可能重複</span>}
+                                    {row.isCredit && !row.error && <span className="text-green-400 shrink-0" title="以負數支出抵銷花費">退款</span>}
+                                </label>
+                            ))}
+                        </div>
+                        <Button onClick={confirmCsvImport} className="w-full">匯入勾選項目</Button>
+                    </div>
+                )}
+            </Modal>
+
             {/* Expense Add/Edit Modal */}
             <Modal isOpen={isExpenseModalOpen} onClose={() => setIsExpenseModalOpen(false)} title={modalMode === 'add' ? '新增支出' : '編輯支出'}>
                 <div className="space-y-4">
@@ -982,9 +1969,15 @@ const ExpenseView = ({ trip, updateTrip, isPrinting = false }: { trip: Trip; upd
                         <label className="block text-xs text-gold-500 mb-1">品項名稱</label>
                         <input value={expenseForm.item || ''} onChange={e => setExpenseForm({...expenseForm, item: e.target.value})} placeholder="例如：晚餐" className="w-full bg-dark-bg border border-gray-700 rounded-lg p-3 text-white outline-none focus:border-gold-500" />
                     </div>
-                    <div className="grid grid-cols-2 gap-3">
+                    <div className="grid grid-cols-3 gap-3">
+                        <div>
+                            <label className="block text-xs text-gold-500 mb-1">幣別</label>
+                            <select value={expenseForm.currency || trip.currencyCode} onChange={e => selectExpenseCurrency(e.target.value)} className="w-full bg-dark-bg border border-gray-700 rounded-lg p-3 text-white outline-none focus:border-gold-500">
+                                {[...new Set([...currencyOptions(trip), expenseForm.currency || trip.currencyCode])].map(c => <option key={c} value={c}>{c}</option>)}
+                            </select>
+                        </div>
                         <div>
-                            <label className="block text-xs text-gold-500 mb-1">外幣金額 ({trip.currencyCode})</label>
+                            <label className="block text-xs text-gold-500 mb-1">金額 ({expenseForm.currency || trip.currencyCode})</label>
                             <input type="number" value={expenseForm.foreignAmount || ''} onChange={e => setExpenseForm({...expenseForm, foreignAmount: parseFloat(e.target.value)})} placeholder="0" className="w-full bg-dark-bg border border-gray-700 rounded-lg p-3 text-white outline-none focus:border-gold-500" />
                         </div>
                         <div>
@@ -996,6 +1989,10 @@ const ExpenseView = ({ trip, updateTrip, isPrinting = false }: { trip: Trip; upd
                         <label className="block text-xs text-gold-500 mb-1">台幣金額 (自動計算/手動修改)</label>
                         <input type="number" value={expenseForm.twdAmount || ''} onChange={e => setExpenseForm({...expenseForm, twdAmount: parseFloat(e.target.value)})} placeholder="0" className="w-full bg-dark-bg border border-gray-700 rounded-lg p-3 text-white outline-none focus:border-gold-500 font-mono text-gold-400 font-bold" />
                     </div>
+                    <div>
+                        <label className="block text-xs text-gray-500 mb-1">日期</label>
+                        <input type="date" value={(expenseForm.date || today).split('T')[0]} onChange={e => updateExpenseRate({...expenseForm, date: e.target.value})} className="w-full bg-dark-bg border border-gray-700 rounded-lg p-3 text-white outline-none" />
+                    </div>
                     <div className="grid grid-cols-2 gap-3">
                         <div>
                             <label className="block text-xs text-gray-500 mb-1">分類</label>
@@ -1004,23 +2001,89 @@ const ExpenseView = ({ trip, updateTrip, isPrinting = false }: { trip: Trip; upd
                             </select>
                         </div>
                         <div>
-                            <label className="block text-xs text-gray-500 mb-1">分帳</label>
-                            <select value={expenseForm.split || 'me'} onChange={e => setExpenseForm({...expenseForm, split: e.target.value as SplitType})} className="w-full bg-dark-bg border border-gray-700 rounded-lg p-3 text-white outline-none">
-                                <option value="me">個人</option>
-                                <option value="parents">父母</option>
-                                <option value="shared">公費</option>
+                            <label className="block text-xs text-gray-500 mb-1">付款人</label>
+                            <select value={expenseForm.paidBy || ''} onChange={e => setExpenseForm({...expenseForm, paidBy: e.target.value})} className="w-full bg-dark-bg border border-gray-700 rounded-lg p-3 text-white outline-none">
+                                {trip.travellers.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
                             </select>
                         </div>
                     </div>
+                    {trip.travellers.length > 1 && (
+                        <div>
+                            <div className="flex justify-between items-center mb-1">
+                                <label className="text-xs text-gray-500">分攤</label>
+                                <div className="flex gap-1">
+                                    {(Object.keys(SPLIT_MODE_LABELS) as SplitMode[]).map(mode => (
+                                        <button key={mode} onClick={() => setSplitMode(mode)} className={`px-2 py-0.5 rounded text-[10px] border ${(expenseForm.splitMode || 'weighted') === mode ? 'bg-gold-500 text-black border-gold-500' : 'text-gray-400 border-gray-700'}`}>{SPLIT_MODE_LABELS[mode]}</button>
+                                    ))}
+                                </div>
+                            </div>
+                            <div className="space-y-1">
+                                {trip.travellers.map(t => (
+                                    <div key={t.id} className="flex items-center gap-2">
+                                        <span className="flex-1 text-sm text-gray-300 truncate">{t.name}</span>
+                                        <input type="number" min="0" value={shareValue(t.id) || ''} onChange={e => setShareValue(t.id, parseFloat(e.target.value) || 0)} placeholder="0" className="w-24 bg-dark-bg border border-gray-700 rounded p-1.5 text-white text-sm text-right outline-none" />
+                                        <span className="w-10 text-[10px] text-gray-500">{expenseForm.splitMode === 'exact' ? expenseForm.currency : '份'}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                    {!expenseForm.refundOf && (
+                        <div className="flex items-center gap-2">
+                            <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer whitespace-nowrap">
+                                <input type="checkbox" checked={!!expenseForm.taxRefund} onChange={e => setExpenseForm({ ...expenseForm, taxRefund: e.target.checked ? { store: expenseForm.item || '', status: 'pending' } : undefined })} className="w-4 h-4 rounded accent-gold-500" />
+                                可退稅
+                            </label>
+                            {expenseForm.taxRefund && (
+                                <input value={expenseForm.taxRefund.store} onChange={e => setExpenseForm({ ...expenseForm, taxRefund: { ...expenseForm.taxRefund!, store: e.target.value } })} placeholder="店家" className="flex-1 min-w-0 bg-dark-bg border border-gray-700 rounded-lg p-2 text-white text-sm outline-none" />
+                            )}
+                        </div>
+                    )}
+                    <div>
+                        <div className="flex justify-between items-center mb-1">
+                            <label className="text-xs text-gray-500">明細</label>
+                            <button onClick={addExpenseLine} className="text-[10px] text-gold-500 flex items-center gap-1"><Icons.Plus size={12}/> 新增明細</button>
+                        </div>
+                        {formLines.length > 0 && (
+                            <div className="space-y-2">
+                                {formLines.map(line => (
+                                    <div key={line.id} className="bg-dark-bg border border-gray-800 rounded-lg p-2 space-y-1">
+                                        <div className="flex items-center gap-1">
+                                            <input value={line.name} onChange={e => updateExpenseLine(line.id, { name: e.target.value })} placeholder="品項" className="flex-1 min-w-0 bg-transparent border-b border-gray-700 p-1 text-white text-sm outline-none" />
+                                            <input type="number" min="0" value={line.amount || ''} onChange={e => updateExpenseLine(line.id, { amount: parseFloat(e.target.value) || 0 })} placeholder="0" className="w-20 bg-transparent border-b border-gray-700 p-1 text-white text-sm text-right outline-none" />
+                                            <select value={line.category} onChange={e => updateExpenseLine(line.id, { category: e.target.value as ExpenseCategory })} className="bg-dark-bg border border-gray-700 rounded p-1 text-white text-xs outline-none">
+                                                {EXPENSE_CATEGORIES.map(c => <option key={c.id} value={c.id}>{c.label}</option>)}
+                                            </select>
+                                            <button onClick={() => removeExpenseLine(line.id)} className="text-gray-500 hover:text-red-400 p-1"><Icons.Trash size={12}/></button>
+                                        </div>
+                                        {trip.travellers.length > 1 && (
+                                            <div className="flex flex-wrap gap-1">
+                                                {trip.travellers.map(t => (
+                                                    <button key={t.id} onClick={() => toggleLineTraveller(line, t.id)} className={`px-2 py-0.5 rounded text-[10px] border ${line.shares?.some(s => s.travellerId === t.id) ? 'bg-gold-500 text-black border-gold-500' : 'text-gray-400 border-gray-700'}`}>{t.name}</button>
+                                                ))}
+                                                {!line.shares && <span className="text-[10px] text-gray-500 self-center">同整筆</span>}
+                                            </div>
+                                        )}
+                                    </div>
+                                ))}
+                                <div className={`text-[10px] text-right ${Math.abs(formLinesTotal - formLinesBase) < 0.01 ? 'text-gray-500' : 'text-red-400'}`}>
+                                    明細合計 {formLinesTotal.toLocaleString()} / 總額 {formLinesBase.toLocaleString()} {expenseForm.currency}
+                                </div>
+                            </div>
+                        )}
+                    </div>
                     <div>
                         <label className="block text-xs text-gray-500 mb-1">支付方式</label>
-                        <div className="flex gap-2">
-                            {(['cash', 'cube_card', 'credit_card'] as PaymentMethod[]).map(pm => (
-                                <button key={pm} onClick={() => setExpenseForm({...expenseForm, paymentMethod: pm})} className={`flex-1 py-2 rounded-lg text-xs border ${expenseForm.paymentMethod === pm ? 'bg-gold-500 text-black border-gold-500' : 'bg-dark-surface text-gray-400 border-gray-700'}`}>
-                                    {pm === 'cash' ? '現金' : pm === 'cube_card' ? 'Cube卡' : '信用卡'}
+                        <div className="flex flex-wrap gap-2">
+                            {trip.paymentMethods.map(m => (
+                                <button key={m.id} onClick={() => updateExpenseRate({...expenseForm, paymentMethod: m.id})} className={`flex-1 min-w-[5rem] py-2 rounded-lg text-xs border ${expenseForm.paymentMethod === m.id ? 'bg-gold-500 text-black border-gold-500' : 'bg-dark-surface text-gray-400 border-gray-700'}`}>
+                                    {m.name}
                                 </button>
                             ))}
                         </div>
+                        {(formBreakdown.fee > 0 || formBreakdown.reward > 0) && (
+                            <div className="text-[10px] text-gray-500 mt-1">手續費 {Math.round(formBreakdown.fee).toLocaleString()} · 回饋 {Math.round(formBreakdown.reward).toLocaleString()} · 實際成本 {Math.round(formBreakdown.net).toLocaleString()} TWD</div>
+                        )}
                     </div>
                     <div className="flex items-center gap-2">
                         <label className="flex-1 bg-dark-bg border border-gray-700 rounded-lg p-3 flex items-center justify-center gap-2 cursor-pointer hover:bg-gray-800 transition-colors">
@@ -1034,6 +2097,11 @@ const ExpenseView = ({ trip, updateTrip, isPrinting = false }: { trip: Trip; upd
                                 <button onClick={() => setExpenseForm({...expenseForm, photo: undefined})} className="absolute top-0 right-0 bg-red-500 text-white p-0.5 rounded-bl"><Icons.Plus className="rotate-45" size={10} /></button>
                             </div>
                         )}
+                        {expenseForm.photo && (
+                            <button onClick={scanReceipt} disabled={isScanning} title="AI 辨識收據" className="h-12 px-3 rounded-lg border border-purple-500/50 text-purple-300 text-xs flex items-center gap-1 disabled:opacity-50 flex-shrink-0">
+                                {isScanning ? <div className="animate-spin h-4 w-4 border-2 border-purple-300 rounded-full border-t-transparent"></div> : <Icons.Sparkles size={16}/>} 辨識
+                            </button>
+                        )}
                     </div>
                     <Button onClick={handleSaveExpense} className="w-full mt-4">{modalMode === 'add' ? '加入記帳' : '儲存變更'}</Button>
                 </div>
@@ -1118,7 +2186,7 @@ const InfoView = ({ trip, updateTrip, isPrinting = false }: { trip: Trip; update
     const openAddBooking = (type: 'flight' | 'accommodation') => {
         setBookingMode('add');
         setBookingType(type);
-        setBookingForm({ date: trip.startDate, activity: '', location: '', cost: 0 });
+        setBookingForm({ date: trip.startDate, endDate: type === 'accommodation' ? trip.itinerary[1]?.date : undefined, activity: '', location: '', cost: 0 });
         setBookingDetails({});
         setIsBookingModalOpen(true);
     };
@@ -1133,6 +2201,7 @@ const InfoView = ({ trip, updateTrip, isPrinting = false }: { trip: Trip; update
 
     const handleSaveBooking = () => {
         if (!bookingForm.activity || !bookingForm.date) return alert("請填寫必要資訊");
+        if (bookingType === 'accommodation' && bookingForm.endDate && bookingForm.endDate <= bookingForm.date) return alert("退房日期需晚於入住日期");
 
         const newTrip = { ...trip };
         
@@ -1148,10 +2217,14 @@ const InfoView = ({ trip, updateTrip, isPrinting = false }: { trip: Trip; update
             id: bookingForm.id || generateId(),
             time: bookingForm.time || '00:00',
             endTime: bookingForm.endTime, // Save endTime for flight arrival
+            timeZone: bookingForm.timeZone,
+            endTimeZone: bookingForm.endTimeZone,
+            endDate: bookingType === 'accommodation' ? bookingForm.endDate : undefined,
             activity: bookingForm.activity!,
             location: bookingForm.location || '',
             type: bookingType,
             cost: Number(bookingForm.cost) || 0,
+            costCurrency: bookingForm.costCurrency,
             bookingDetails: bookingDetails,
             bookingImage: bookingForm.bookingImage,
             // Defaults
@@ -1367,7 +2440,7 @@ const InfoView = ({ trip, updateTrip, isPrinting = false }: { trip: Trip; update
                                                  <div className="text-[10px] text-gray-500 mt-1 max-w-[80px] truncate">{f.location || '出發地'}</div>
                                              </div>
                                              <div className="flex-1 flex flex-col items-center px-2">
-                                                 <div className="text-xs text-gold-500 font-bold mb-1">{calculateDuration(f.time, f.endTime)}</div>
+                                                 <div className="text-xs text-gold-500 font-bold mb-1">{formatDuration(itemDurationMinutes(trip, f, f.date))}</div>
                                                  <div className="w-full h-px bg-gray-600 relative">
                                                       <Icons.Plane className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 text-gold-500 rotate-90 bg-dark-card p-0.5 w-6 h-6" size={16} />
                                                  </div>
@@ -1380,8 +2453,8 @@ const InfoView = ({ trip, updateTrip, isPrinting = false }: { trip: Trip; update
                                          
                                          <div className="grid grid-cols-4 gap-y-4 gap-x-2 border-t border-gray-800 pt-4">
                                              <div><div className="text-[9px] text-gray-500 uppercase">日期</div><div className="font-bold text-sm text-white">{f.date}</div></div>
-                                             <div><div className="text-[9px] text-gray-500 uppercase">起飛</div><div className="font-bold text-sm text-white">{f.time}</div></div>
-                                             <div><div className="text-[9px] text-gray-500 uppercase">抵達</div><div className="font-bold text-sm text-white">{f.endTime || '-'}</div></div>
+                                             <div><div className="text-[9px] text-gray-500 uppercase">起飛</div><div className="font-bold text-sm text-white">{f.time}</div><div className="text-[9px] text-gray-500">{timeZoneLabel(itemTimeZone(trip, f))}</div></div>
+                                             <div><div className="text-[9px] text-gray-500 uppercase">抵達</div><div className="font-bold text-sm text-white">{f.endTime || '-'}</div>{f.endTime && <div className="text-[9px] text-gray-500">{timeZoneLabel(itemEndTimeZone(trip, f))}</div>}</div>
                                              <div><div className="text-[9px] text-gray-500 uppercase">航班</div><div className="font-bold text-sm text-gold-500">{f.bookingDetails?.flightNumber || 'N/A'}</div></div>
                                              
                                              <div><div className="text-[9px] text-gray-500 uppercase">航廈</div><div className="font-bold text-sm text-white">{f.bookingDetails?.terminal || '-'}</div></div>
@@ -1415,6 +2488,7 @@ const InfoView = ({ trip, updateTrip, isPrinting = false }: { trip: Trip; update
                                 hotels.map(h => {
                                     const guests = splitGuests[h.id] || h.bookingDetails?.guests || 2;
                                     const splitCost = h.cost ? Math.round(h.cost / guests) : 0;
+                                    const nights = spanLength(h, h.date);
                                     
                                     return (
                                         <div key={h.id} className="bg-dark-surface rounded-xl overflow-hidden border border-gray-700 flex flex-col relative group break-inside-avoid">
@@ -1431,9 +2505,11 @@ const InfoView = ({ trip, updateTrip, isPrinting = false }: { trip: Trip; update
                                             
                                             <div className="p-4 space-y-3">
                                                 <div className="flex gap-4 text-sm bg-black/20 p-2 rounded-lg justify-around">
-                                                    <div className="flex flex-col items-center"><span className="text-[10px] text-gray-500 uppercase">入住</span><span className="font-bold text-gold-400">{h.bookingDetails?.checkInTime || '15:00'}</span></div>
+                                                    <div className="flex flex-col items-center"><span className="text-[10px] text-gray-500 uppercase">入住 {formatDate(h.date)}</span><span className="font-bold text-gold-400">{h.bookingDetails?.checkInTime || '15:00'}</span></div>
+                                                    <div className="w-px bg-gray-700"></div>
+                                                    <div className="flex flex-col items-center"><span className="text-[10px] text-gray-500 uppercase">晚數</span><span className="font-bold text-white">{isMultiDay(h, h.date) ? nights : '-'}</span></div>
                                                     <div className="w-px bg-gray-700"></div>
-                                                    <div className="flex flex-col items-center"><span className="text-[10px] text-gray-500 uppercase">退房</span><span className="font-bold text-gray-300">{h.bookingDetails?.checkOutTime || '11:00'}</span></div>
+                                                    <div className="flex flex-col items-center"><span className="text-[10px] text-gray-500 uppercase">退房 {h.endDate ? formatDate(h.endDate) : ''}</span><span className="font-bold text-gray-300">{h.bookingDetails?.checkOutTime || '11:00'}</span></div>
                                                 </div>
                                                 
                                                 <div className="flex items-center gap-2 text-xs text-gray-400">
@@ -1446,6 +2522,7 @@ const InfoView = ({ trip, updateTrip, isPrinting = false }: { trip: Trip; update
                                                         <div className="text-sm">
                                                             <span className="text-gray-500 block text-xs">總額</span>
                                                             <span className="font-bold text-white">${h.cost.toLocaleString()}</span>
+                                                            {nights > 1 && <span className="text-gray-500 block text-xs">每晚 ${Math.round(costPerDay(h, h.date)).toLocaleString()}</span>}
                                                         </div>
                                                         <div className="flex items-center gap-2 bg-dark-bg p-1 rounded-lg border border-gray-700 no-print">
                                                             <button onClick={() => setSplitGuests({...splitGuests, [h.id]: Math.max(1, guests - 1)})} className="w-6 h-6 flex items-center justify-center text-gray-400 hover:text-white">-</button>
@@ -1579,7 +2656,7 @@ const InfoView = ({ trip, updateTrip, isPrinting = false }: { trip: Trip; update
             <Modal isOpen={isBookingModalOpen} onClose={() => setIsBookingModalOpen(false)} title={bookingMode === 'add' ? (bookingType === 'flight' ? '新增航班' : '新增住宿') : '編輯預訂'}>
                 <div className="space-y-3">
                     <div>
-                        <label className="block text-xs text-gold-500 mb-1">日期</label>
+                        <label className="block text-xs text-gold-500 mb-1">{bookingType === 'accommodation' ? '入住日期' : '日期'}</label>
                         <select 
                             value={bookingForm.date || ''} 
                             onChange={e => setBookingForm({...bookingForm, date: e.target.value})}
@@ -1588,6 +2665,19 @@ const InfoView = ({ trip, updateTrip, isPrinting = false }: { trip: Trip; update
                             {(trip.itinerary || []).map(d => <option key={d.date} value={d.date}>{formatDate(d.date)}</option>)}
                         </select>
                     </div>
+                    {bookingType === 'accommodation' && (
+                        <div>
+                            <label className="block text-xs text-gold-500 mb-1">退房日期</label>
+                            <select
+                                value={bookingForm.endDate || ''}
+                                onChange={e => setBookingForm({...bookingForm, endDate: e.target.value || undefined})}
+                                className="w-full bg-dark-bg border border-gray-700 rounded-lg p-3 text-white outline-none"
+                            >
+                                <option value="">未設定</option>
+                                {(trip.itinerary || []).filter(d => d.date > (bookingForm.date || '')).map(d => <option key={d.date} value={d.date}>{formatDate(d.date)}</option>)}
+                            </select>
+                        </div>
+                    )}
 
                     {bookingType === 'flight' ? (
                         <>
@@ -1613,6 +2703,14 @@ const InfoView = ({ trip, updateTrip, isPrinting = false }: { trip: Trip; update
                                      <label className="text-xs text-gray-500">抵達時間</label>
                                      <input type="time" value={bookingForm.endTime || ''} onChange={e => setBookingForm({...bookingForm, endTime: e.target.value})} className="w-full bg-dark-bg border border-gray-700 rounded p-2 text-white text-sm"/>
                                  </div>
+                                 <div>
+                                     <label className="text-xs text-gray-500">出發時區</label>
+                                     <TimeZoneSelect value={bookingForm.timeZone} onChange={zone => setBookingForm({...bookingForm, timeZone: zone})} defaultLabel={`同行程 (${timeZoneLabel(trip.timeZone)})`} className="w-full bg-dark-bg border border-gray-700 rounded p-2 text-white text-sm"/>
+                                 </div>
+                                 <div>
+                                     <label className="text-xs text-gray-500">抵達時區</label>
+                                     <TimeZoneSelect value={bookingForm.endTimeZone} onChange={zone => setBookingForm({...bookingForm, endTimeZone: zone})} defaultLabel="同出發時區" className="w-full bg-dark-bg border border-gray-700 rounded p-2 text-white text-sm"/>
+                                 </div>
                              </div>
                         </>
                     ) : (
@@ -1801,12 +2899,86 @@ const GuideView = ({ trip, updateTrip }: { trip: Trip; updateTrip: (t: Trip) =>
     );
 };
 
+// --- Trip Merge ---
+
+const MERGE_SECTIONS: { id: MergeSection; label: string }[] = [
+    { id: 'itinerary', label: '行程' },
+    { id: 'expenses', label: '記帳' },
+    { id: 'checklist', label: '清單' },
+];
+
+const MERGE_CHANGE_LABELS: { [key in MergeChange]: { label: string; className: string } } = {
+    added: { label: '對方新增', className: 'text-green-400 border-green-700/50' },
+    removed: { label: '僅本機有', className: 'text-red-400 border-red-700/50' },
+    changed: { label: '內容不同', className: 'text-yellow-400 border-yellow-700/50' },
+};
+
+const TripMergeModal = ({ local, incoming, onMerge, onKeepBoth, onClose }: { local: Trip, incoming: Trip, onMerge: (merged: Trip) => void, onKeepBoth: () => void, onClose: () => void }) => {
+    const entries = useMemo(() => diffTrips(local, incoming), [local, incoming]);
+    const [choices, setChoices] = useState<MergeChoices>(() => defaultMergeChoices(entries));
+
+    const chooseSection = (section: MergeSection, side: MergeSide) => {
+        const next = { ...choices };
+        entries.filter(e => e.section === section).forEach(e => next[e.key] = side);
+        setChoices(next);
+    };
+
+    return (
+        <Modal isOpen={true} onClose={onClose} title="合併旅程">
+            <div className="space-y-4">
+                <p className="text-sm text-gray-400">「{local.destination}」已存在，可選擇要保留本機或採用收到的版本。</p>
+                {entries.length === 0 && <p className="text-center text-gray-500 py-4">內容相同，沒有需要合併的變更</p>}
+                {MERGE_SECTIONS.map(section => {
+                    const sectionEntries = entries.filter(e => e.section === section.id);
+                    if (sectionEntries.length === 0) return null;
+                    return (
+                        <div key={section.id}>
+                            <div className="flex justify-between items-center mb-2">
+                                <span className="text-xs text-gold-500 font-bold">{section.label} ({sectionEntries.length})</span>
+                                <div className="flex gap-2 text-[10px]">
+                                    <button onClick={() => chooseSection(section.id, 'local')} className="text-gray-400 hover:text-white">全部保留本機</button>
+                                    <button onClick={() => chooseSection(section.id, 'incoming')} className="text-gray-400 hover:text-white">全部採用對方</button>
+                                </div>
+                            </div>
+                            <div className="space-y-1">
+                                {sectionEntries.map(entry => (
+                                    <div key={entry.key} className="flex items-center gap-2 p-2 rounded border border-gray-800 text-xs">
+                                        <span className={`shrink-0 px-1 rounded border ${MERGE_CHANGE_LABELS[entry.change].className}`}>{MERGE_CHANGE_LABELS[entry.change].label}</span>
+                                        <div className="flex-1 min-w-0">
+                                            <div className="text-white truncate">{entry.label}</div>
+                                            {entry.fields && <div className="text-gray-500 truncate">{entry.fields.join(', ')}</div>}
+                                        </div>
+                                        <div className="flex shrink-0 rounded overflow-hidden border border-gray-700">
+                                            {(['local', 'incoming'] as MergeSide[]).map(side => (
+                                                <button key={side} onClick={() => setChoices({ ...choices, [entry.key]: side })} className={`px-2 py-1 ${choices[entry.key] === side ? 'bg-gold-500 text-black font-bold' : 'text-gray-400'}`}>
+                                                    {side === 'local' ? '本機' : '對方'}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    );
+                })}
+                <Button onClick={() => onMerge(mergeTrips(local, incoming, entries, choices))} className="w-full">合併到現有旅程</Button>
+                <Button onClick={onKeepBoth} variant="secondary" className="w-full text-sm">另存為新旅程</Button>
+            </div>
+        </Modal>
+    );
+};
+
 const App = () => {
   const [trips, setTrips] = useState<Trip[]>([]);
   const [currentTripId, setCurrentTripId] = useState<string | null>(null);
   const [view, setView] = useState<'home' | 'trip'>('home');
   const [activeTab, setActiveTab] = useState<Tab>(Tab.ITINERARY);
   const [loading, setLoading] = useState(false);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const persistedTrips = useRef<Trip[]>([]);
+  const storageErrorShown = useRef(false);
+  const [histories, setHistories] = useState<{ [tripId: string]: TripHistory }>({});
+  const [pendingMerge, setPendingMerge] = useState<{ incoming: Trip; targetId: string; copyName: string; open: boolean } | null>(null);
   
   // Create Trip Form State
   const [showCreateModal, setShowCreateModal] = useState(false);
@@ -1816,65 +2988,126 @@ const App = () => {
 
   // Initial Load
   useEffect(() => {
-    // 1. Check URL for Shared Data
-    const params = new URLSearchParams(window.location.search);
-    const shareData = params.get('share');
-    if (shareData) {
-        try {
-            const sharedTrip = JSON.parse(LZString.decompressFromEncodedURIComponent(shareData) || '');
-            if (sharedTrip && sharedTrip.destination) {
-                const newId = generateId();
-                const importedTrip = { 
-                    ...sharedTrip, 
-                    id: newId, 
-                    destination: `${sharedTrip.destination} (Shared)`,
-                    // Sanitize large fields if needed
-                };
-                setTrips(prev => {
-                    const exists = prev.some(t => t.id === importedTrip.id);
-                    return exists ? prev : [...prev, importedTrip];
-                });
-                setCurrentTripId(newId);
-                setView('trip');
-                // Clean URL
-                window.history.replaceState({}, '', window.location.pathname);
-                return;
-            }
-        } catch(e) { console.error("Share Import Failed", e); }
-    }
-
-    // 2. Load Local Storage
-    const savedTrips = localStorage.getItem('voyage-trips');
-    if (savedTrips) {
-        try {
-            const parsed = JSON.parse(savedTrips);
-            if (Array.isArray(parsed)) {
-                setTrips(parsed);
-            }
-        } catch(e) {
-            console.error("Failed to parse saved trips", e);
-        }
-    } else {
-        // Migration: Check for old single trip
-        const oldTrip = localStorage.getItem('gemini-trip-v1');
-        if (oldTrip) {
+    loadTrips().then(loaded => {
+        persistedTrips.current = loaded;
+        setTrips(loaded);
+
+        // Check URL for Shared Data
+        const params = new URLSearchParams(window.location.search);
+        const shareData = params.get('share');
+        if (shareData) {
             try {
-                const parsed = JSON.parse(LZString.decompressFromUTF16(oldTrip) || 'null');
-                if (parsed) setTrips([parsed]);
-            } catch(e) {}
+                const sharedTrip = migrateTrip(JSON.parse(LZString.decompressFromEncodedURIComponent(shareData) || ''));
+                receiveTrip(sharedTrip, loaded, `${sharedTrip.destination} (Shared)`, true);
+            } catch(e) {
+                console.error("Share Import Failed", e);
+                alert("無法開啟分享的旅程");
+            }
+            // Clean URL
+            window.history.replaceState({}, '', window.location.pathname);
         }
-    }
+
+        setIsLoaded(true);
+    }).catch(e => {
+        console.error("Failed to load trips", e);
+        alert("無法讀取已儲存的旅程，請確認瀏覽器允許網站資料儲存。");
+    });
   }, []);
 
-  // Sync to LocalStorage
+  // Sync to IndexedDB (only trips that changed since the last successful sync are written,
+  // so a failed save is retried with the next change)
   useEffect(() => {
-      localStorage.setItem('voyage-trips', JSON.stringify(trips));
-  }, [trips]);
+      if (!isLoaded) return;
+      syncTrips(persistedTrips.current, trips).then(() => {
+          persistedTrips.current = trips;
+          storageErrorShown.current = false;
+      }).catch(e => {
+          console.error("Failed to save trips", e);
+          if (!storageErrorShown.current) {
+              storageErrorShown.current = true;
+              alert("儲存失敗！裝置空間可能不足，最近的變更尚未保存，建議先匯出檔案備份。");
+          }
+      });
+  }, [trips, isLoaded]);
 
   const updateCurrentTrip = (updatedTrip: Trip) => {
+      setHistories(prev => {
+          const history = prev[updatedTrip.id];
+          return history ? { ...prev, [updatedTrip.id]: recordChange(history, updatedTrip) } : prev;
+      });
       setTrips(prev => prev.map(t => t.id === updatedTrip.id ? updatedTrip : t));
   };
 
+  // --- Incoming Trips (share links, imported files) ---
+
+  const addTripCopy = (incoming: Trip, copyName: string, open: boolean) => {
+      const copy = { ...incoming, id: generateId(), destination: copyName }; // Avoid ID conflicts
+      setTrips(prev => [...prev, copy]);
+      if (open) {
+          setCurrentTripId(copy.id);
+          setView('trip');
+      }
+  };
+
+  // A trip we already have a copy of goes through the merge dialog instead of being duplicated
+  const receiveTrip = (incoming: Trip, existing: Trip[], copyName: string, open: boolean) => {
+      const target = findMergeTarget(existing, incoming);
+      if (target) setPendingMerge({ incoming, targetId: target.id, copyName, open });
+      else addTripCopy(incoming, copyName, open);
+  };
+
+  const handleMerge = (merged: Trip) => {
+      updateCurrentTrip(merged);
+      setPendingMerge(null);
+      setCurrentTripId(merged.id);
+      setView('trip');
+  };
+
+  const handleKeepBoth = () => {
+      if (!pendingMerge) return;
+      addTripCopy(pendingMerge.incoming, pendingMerge.copyName, pendingMerge.open);
+      setPendingMerge(null);
+  };
+
+  const mergeTarget = pendingMerge && trips.find(t => t.id === pendingMerge.targetId);
+
+  // --- Undo / Redo (per trip, survives tab switches) ---
+
+  const currentHistory = currentTripId ? histories[currentTripId] : undefined;
+  const canUndo = !!currentHistory && currentHistory.past.length > 0;
+  const canRedo = !!currentHistory && currentHistory.future.length > 0;
+
+  const restoreHistory = (next: TripHistory | null) => {
+      if (!next || !currentTripId) return;
+      const restored = historyTrip(next);
+      setHistories(prev => ({ ...prev, [currentTripId]: next }));
+      setTrips(prev => prev.map(t => t.id === currentTripId ? restored : t));
+  };
+
+  const handleUndo = () => currentHistory && restoreHistory(undoChange(currentHistory));
+  const handleRedo = () => currentHistory && restoreHistory(redoChange(currentHistory));
+
+  // Start a history when a trip is opened, before any view can edit it
+  useEffect(() => {
+      if (!currentTripId || histories[currentTripId]) return;
+      const trip = trips.find(t => t.id === currentTripId);
+      if (trip) setHistories(prev => ({ ...prev, [trip.id]: createHistory(trip) }));
+  }, [currentTripId, trips, histories]);
+
+  // Ctrl/Cmd+Z, Ctrl/Cmd+Shift+Z (text fields keep their native undo)
+  useEffect(() => {
+      if (view !== 'trip') return;
+      const onKeyDown = (e: KeyboardEvent) => {
+          if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+          const target = e.target as HTMLElement;
+          if (target.closest('input, textarea, select, [contenteditable]')) return;
+          e.preventDefault();
+          if (e.shiftKey) handleRedo(); else handleUndo();
+      };
+      window.addEventListener('keydown', onKeyDown);
+      return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
   const handleCreateTrip = async () => {
       if (!dest || !date) return alert("請輸入目的地與日期");
       setLoading(true);
@@ -1886,14 +3119,23 @@ const App = () => {
           const endDate = new Date(date);
           endDate.setDate(endDate.getDate() + days - 1);
 
+          const tripId = generateId();
           const newTrip: Trip = {
-              id: generateId(),
+              id: tripId,
+              schemaVersion: CURRENT_SCHEMA_VERSION,
+              originId: tripId,
               destination: dest,
               startDate: date,
               endDate: endDate.toISOString().split('T')[0],
               duration: days,
               currencyCode: info.currencyCode,
+              timeZone: isValidTimeZone(info.timeZone) ? info.timeZone : guessTimeZone(info.currencyCode),
               exchangeRate: info.exchangeRate,
+              extraCurrencies: [],
+              travellers: [{ id: generateId(), name: '我' }],
+              paymentMethods: DEFAULT_PAYMENT_METHODS.map(m => ({ ...m })),
+              cashEntries: [],
+              expenseViews: [],
               budget: 50000,
               budgets: [],
               expenses: [],
@@ -1902,6 +3144,7 @@ const App = () => {
                   d.setDate(d.getDate() + i);
                   return { date: d.toISOString().split('T')[0], items: [] };
               }),
+              unscheduled: [],
               checklist: DEFAULT_CHECKLIST_ITEMS.flatMap(c => c.items.map(i => ({ id: generateId(), text: i, category: c.category, checked: false }))),
               weather: info.weather,
               dailyWeather: info.dailyWeather,
@@ -1927,6 +3170,10 @@ const App = () => {
   const handleDeleteTrip = (id: string) => {
       if(confirm("確定刪除此行程？此動作無法復原。")) {
           setTrips(prev => prev.filter(t => t.id !== id));
+          setHistories(prev => {
+              const { [id]: _removed, ...rest } = prev;
+              return rest;
+          });
           if (currentTripId === id) {
               setCurrentTripId(null);
               setView('home');
@@ -1935,34 +3182,34 @@ const App = () => {
   };
 
   const handleExportFile = (t: Trip) => {
-       const data = LZString.compressToUTF16(JSON.stringify(t));
-       const blob = new Blob([data], { type: 'text/plain' });
-       const url = URL.createObjectURL(blob);
-       const a = document.createElement('a');
-       a.href = url;
-       a.download = `trip-${t.destination}-${t.startDate}.gemini`;
-       a.click();
+       downloadBlob(exportTripArchive(t), `trip-${t.destination}-${t.startDate}.zip`);
   };
 
+  // Accepts the .zip archive and legacy .gemini (LZString) / plain JSON files
   const handleImportFile = (e: React.ChangeEvent<HTMLInputElement>) => {
       const file = e.target.files?.[0];
       if (file) {
           const reader = new FileReader();
-          reader.onload = (ev) => {
+          reader.onload = async (ev) => {
               try {
-                  const content = ev.target?.result as string;
-                  const parsed = JSON.parse(LZString.decompressFromUTF16(content) || content);
-                  if (parsed.id && parsed.itinerary) {
-                      parsed.id = generateId(); // Avoid ID conflicts
-                      setTrips(prev => [...prev, parsed]);
+                  const bytes = new Uint8Array(ev.target?.result as ArrayBuffer);
+                  let imported: Trip;
+                  if (isTripArchive(bytes)) {
+                      imported = await importTripArchive(bytes);
                   } else {
-                      alert("無效的檔案格式");
+                      const content = new TextDecoder().decode(bytes);
+                      const parsed = JSON.parse(LZString.decompressFromUTF16(content) || content);
+                      if (!parsed.id || !parsed.itinerary) return alert("無效的檔案格式");
+                      imported = migrateTrip(parsed);
                   }
+                  receiveTrip(imported, trips, imported.destination, false);
               } catch (e) {
+                  console.error("Import Failed", e);
                   alert("讀取檔案失敗");
               }
           };
-          reader.readAsText(file);
+          reader.readAsArrayBuffer(file);
+          e.target.value = '';
       }
   };
   
@@ -1974,6 +3221,7 @@ const App = () => {
               ...d,
               items: d.items.map(i => ({ ...i, bookingImage: undefined }))
           })),
+          unscheduled: t.unscheduled.map(i => ({ ...i, bookingImage: undefined })),
           expenses: t.expenses.map(e => ({ ...e, photo: undefined })),
           vouchers: [] // remove vouchers
       };
@@ -2012,7 +3260,7 @@ const App = () => {
                       <div className="flex gap-2">
                           <label className="bg-dark-surface hover:bg-gray-800 text-gray-300 px-4 py-2 rounded-xl text-sm font-bold border border-gray-700 cursor-pointer flex items-center gap-2 transition-colors">
                               <Icons.Download size={16}/> 匯入
-                              <input type="file" accept=".gemini,.txt" onChange={handleImportFile} className="hidden" />
+                              <input type="file" accept=".zip,.gemini,.txt" onChange={handleImportFile} className="hidden" />
                           </label>
                           <button onClick={() => setShowCreateModal(true)} className="bg-gradient-to-r from-gold-500 to-gold-600 text-black px-4 py-2 rounded-xl text-sm font-bold shadow-lg hover:shadow-gold-500/20 transition-all flex items-center gap-2">
                               <Icons.Plus size={18}/> 新增旅程
@@ -2029,6 +3277,7 @@ const App = () => {
                                   </div>
                                   <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
                                       <button onClick={() => handleExportFile(t)} className="p-2 text-gray-400 hover:text-white hover:bg-white/10 rounded-full" title="匯出檔案"><Icons.Download size={16}/></button>
+                                      <button onClick={() => exportCalendar(t)} className="p-2 text-gray-400 hover:text-white hover:bg-white/10 rounded-full" title="匯出行事曆 (.ics)"><Icons.Calendar size={16}/></button>
                                       <button onClick={() => handleShareLink(t)} className="p-2 text-gray-400 hover:text-white hover:bg-white/10 rounded-full" title="分享連結"><Icons.Share size={16}/></button>
                                       <button onClick={() => handleDeleteTrip(t.id)} className="p-2 text-gray-400 hover:text-red-400 hover:bg-red-500/10 rounded-full" title="刪除"><Icons.Trash size={16}/></button>
                                   </div>
@@ -2073,6 +3322,10 @@ const App = () => {
                       </Button>
                   </div>
               </Modal>
+
+              {pendingMerge && mergeTarget && (
+                  <TripMergeModal local={mergeTarget} incoming={pendingMerge.incoming} onMerge={handleMerge} onKeepBoth={handleKeepBoth} onClose={() => setPendingMerge(null)} />
+              )}
           </div>
       );
   }
@@ -2086,10 +3339,14 @@ const App = () => {
             <button onClick={() => setView('home')} className="p-2 -ml-2 text-gray-400 hover:text-white hover:bg-white/10 rounded-full transition-colors">
                 <Icons.ArrowLeft size={20} />
             </button>
-            <div className="ml-2">
-                <h1 className="font-bold text-lg font-serif leading-none">{currentTrip.destination}</h1>
+            <div className="ml-2 flex-1 min-w-0">
+                <h1 className="font-bold text-lg font-serif leading-none truncate">{currentTrip.destination}</h1>
                 <p className="text-[10px] text-gray-400 font-mono mt-0.5">{currentTrip.startDate} • {currentTrip.duration} Days</p>
             </div>
+            <div className="flex gap-1">
+                <button onClick={handleUndo} disabled={!canUndo} title="復原" className="p-2 text-gray-400 hover:text-white hover:bg-white/10 rounded-full transition-colors disabled:opacity-30 disabled:hover:bg-transparent"><Icons.Undo size={18} /></button>
+                <button onClick={handleRedo} disabled={!canRedo} title="重做" className="p-2 text-gray-400 hover:text-white hover:bg-white/10 rounded-full transition-colors disabled:opacity-30 disabled:hover:bg-transparent"><Icons.Redo size={18} /></button>
+            </div>
         </header>
 
         <main className="max-w-md mx-auto p-4">
@@ -0,0 +1,65 @@
+import { zipSync, unzipSync, strToU8, strFromU8, Zippable } from 'fflate';
+import { Trip } from './types';
+import { mapTripAttachments, isDataUrl, dataUrlToBytes, blobToDataUrl } from './attachments';
+import { migrateTrip } from './tripMigrations';
+
+// --- Trip Archive (.zip) ---
+// trip.json           The Trip, described by trip.schema.json. File fields
+//                     (bookingImage, photo, image) hold paths into attachments/.
+// attachments/<kind>-<ownerId>.<ext>
+//                     Booking images, receipt photos and voucher files, stored as-is.
+
+const TRIP_FILE = 'trip.json';
+const ATTACHMENT_DIR = 'attachments/';
+
+const EXTENSIONS: { [mimeType: string]: string } = {
+    'image/jpeg': 'jpg',
+    'image/png': 'png',
+    'image/gif': 'gif',
+    'image/webp': 'webp',
+    'application/pdf': 'pdf'
+};
+
+const mimeTypeForPath = (path: string) => {
+    const ext = path.split('.').pop()?.toLowerCase();
+    if (ext === 'jpeg') return 'image/jpeg';
+    return Object.keys(EXTENSIONS).find(mime => EXTENSIONS[mime] === ext) || 'application/octet-stream';
+};
+
+// Zip files start with the local file header signature "PK\x03\x04"
+export const isTripArchive = (bytes: Uint8Array) => bytes.length > 3 && bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04;
+
+export const exportTripArchive = (trip: Trip): Blob => {
+    const files: Zippable = {};
+
+    const record = mapTripAttachments(trip, (value, kind, ownerId) => {
+        if (!isDataUrl(value)) return value;
+        const { bytes, mimeType } = dataUrlToBytes(value);
+        const path = `${ATTACHMENT_DIR}${kind}-${ownerId}.${EXTENSIONS[mimeType] || 'bin'}`;
+        // Images and PDFs are already compressed
+        files[path] = [bytes, { level: 0 }];
+        return path;
+    });
+
+    files[TRIP_FILE] = strToU8(JSON.stringify(record, null, 2));
+    return new Blob([zipSync(files)], { type: 'application/zip' });
+};
+
+export const importTripArchive = async (bytes: Uint8Array): Promise<Trip> => {
+    const files = unzipSync(bytes);
+    if (!files[TRIP_FILE]) throw new Error(`Archive has no ${TRIP_FILE}`);
+
+    const raw = JSON.parse(strFromU8(files[TRIP_FILE]));
+
+    // Resolve attachment paths back to data URLs (the in-memory representation)
+    const dataUrls = new Map<string, string>();
+    await Promise.all(Object.keys(files)
+        .filter(path => path.startsWith(ATTACHMENT_DIR) && files[path].length > 0)
+        .map(async path => {
+            const blob = new Blob([files[path]], { type: mimeTypeForPath(path) });
+            dataUrls.set(path, await blobToDataUrl(blob));
+        }));
+
+    const trip = migrateTrip(raw);
+    return mapTripAttachments(trip, value => value.startsWith(ATTACHMENT_DIR) ? dataUrls.get(value) || '' : value);
+};
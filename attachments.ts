@@ -0,0 +1,55 @@
+import { Trip } from './types';
+
+export type AttachmentKind = 'item' | 'expense' | 'voucher';
+
+// Visits every file field on a trip (booking screenshots, receipt photos, vouchers)
+// and returns a copy with each value replaced by the callback result.
+export const mapTripAttachments = (
+    trip: Trip,
+    fn: (value: string, kind: AttachmentKind, ownerId: string) => string
+): Trip => ({
+    ...trip,
+    itinerary: (trip.itinerary || []).map(day => ({
+        ...day,
+        items: (day.items || []).map(item => item.bookingImage ? { ...item, bookingImage: fn(item.bookingImage, 'item', item.id) } : item)
+    })),
+    unscheduled: (trip.unscheduled || []).map(item => item.bookingImage ? { ...item, bookingImage: fn(item.bookingImage, 'item', item.id) } : item),
+    expenses: (trip.expenses || []).map(e => e.photo ? { ...e, photo: fn(e.photo, 'expense', e.id) } : e),
+    vouchers: trip.vouchers && trip.vouchers.map(v => v.image ? { ...v, image: fn(v.image, 'voucher', v.id) } : v)
+});
+
+export const isDataUrl = (value: string) => value.startsWith('data:');
+
+export const getDataUrlMimeType = (dataUrl: string) => {
+    const header = dataUrl.slice(5, dataUrl.indexOf(','));
+    return header.split(';')[0] || 'application/octet-stream';
+};
+
+export const dataUrlToBytes = (dataUrl: string): { bytes: Uint8Array; mimeType: string } => {
+    const commaIndex = dataUrl.indexOf(',');
+    const header = dataUrl.slice(0, commaIndex);
+    const payload = dataUrl.slice(commaIndex + 1);
+    const mimeType = getDataUrlMimeType(dataUrl);
+
+    if (!header.endsWith(';base64')) {
+        return { bytes: new TextEncoder().encode(decodeURIComponent(payload)), mimeType };
+    }
+    const binary = atob(payload);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return { bytes, mimeType };
+};
+
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+    const { bytes, mimeType } = dataUrlToBytes(dataUrl);
+    return new Blob([bytes], { type: mimeType });
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.readAsDataURL(blob);
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = reject;
+    });
+};
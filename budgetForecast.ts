@@ -0,0 +1,91 @@
+import { Trip, ExpenseCategory } from './types';
+import { expenseParts } from './expenseLines';
+
+// --- Budget Burn-down ---
+// Spending is bucketed by the itinerary's days. Expenses dated before the first day
+// (flights, hotels booked ahead) count as spent up front; ones after the last day count
+// on the last day. The forecast extends the average daily spend so far to the whole trip.
+
+export interface DaySpend {
+    date: string;
+    spent: number; // TWD
+    cumulative: number; // Including pre-trip spending
+    remaining: number; // Budget left at the end of the day
+}
+
+export interface CategoryForecast {
+    category: ExpenseCategory;
+    spent: number;
+    projected: number;
+    budget: number;
+}
+
+export interface BudgetForecast {
+    days: DaySpend[];
+    preTrip: number;
+    dailyAllowance: number; // What is left after pre-trip spending, spread evenly over the days
+    elapsedDays: number; // Days up to and including the reference date
+    projectedTotal: number;
+    categories: CategoryForecast[]; // Categories with a budget, projected to exceed it
+}
+
+export const budgetForecast = (trip: Trip, today: string): BudgetForecast => {
+    const dates = trip.itinerary.map(d => d.date.split('T')[0]).sort();
+    const first = dates[0];
+    const last = dates[dates.length - 1];
+    const byDate = new Map(dates.map(d => [d, 0]));
+    const preTripByCategory: { [category: string]: number } = {};
+    const inTripByCategory: { [category: string]: number } = {};
+    let preTrip = 0;
+
+    trip.expenses.forEach(e => {
+        const date = e.date.split('T')[0];
+        const isPreTrip = !first || date < first;
+        const day = date > last ? last : date;
+        expenseParts(e).forEach(part => {
+            const totals = isPreTrip ? preTripByCategory : inTripByCategory;
+            totals[part.category] = (totals[part.category] || 0) + part.twd;
+        });
+        if (isPreTrip) {
+            preTrip += e.twdAmount;
+            return;
+        }
+        // Days missing from the itinerary fall back to the nearest earlier day
+        const key = byDate.has(day) ? day : dates.filter(d => d <= day).pop()!;
+        byDate.set(key, byDate.get(key)! + e.twdAmount);
+    });
+
+    let cumulative = preTrip;
+    const days = dates.map(date => {
+        const spent = byDate.get(date) || 0;
+        cumulative += spent;
+        return { date, spent, cumulative, remaining: trip.budget - cumulative };
+    });
+
+    const elapsedDays = dates.filter(d => d <= today).length;
+    const spentSoFar = days.slice(0, elapsedDays).reduce((sum, d) => sum + d.spent, 0);
+    const pace = elapsedDays > 0 ? spentSoFar / elapsedDays : 0;
+    // Spending already recorded for later days (prepaid tickets) counts as well
+    const spentLater = days.slice(elapsedDays).reduce((sum, d) => sum + d.spent, 0);
+    const projectedTotal = preTrip + spentSoFar + Math.max(spentLater, pace * (dates.length - elapsedDays));
+
+    const scale = elapsedDays > 0 ? dates.length / elapsedDays : 1;
+    const categories = (trip.budgets || [])
+        .filter(b => b.amount > 0)
+        .map(b => {
+            const pre = preTripByCategory[b.category] || 0;
+            const inTrip = inTripByCategory[b.category] || 0;
+            return { category: b.category, spent: pre + inTrip, projected: pre + inTrip * scale, budget: b.amount };
+        })
+        .filter(c => c.projected > c.budget)
+        .sort((a, b) => (b.projected - b.budget) - (a.projected - a.budget));
+
+    return {
+        days,
+        preTrip,
+        dailyAllowance: dates.length > 0 ? (trip.budget - preTrip) / dates.length : 0,
+        elapsedDays,
+        projectedTotal,
+        categories
+    };
+};
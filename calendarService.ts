@@ -0,0 +1,382 @@
+import { Trip, ItineraryItem, DayPlan } from './types';
+import { isMultiDay, addDays, daysBetween } from './multiDay';
+import { isValidTimeZone, itemTimeZone, itemEndTimeZone, itemDurationMinutes, wallClock, zonedInstant } from './timeZones';
+
+// --- iCalendar (RFC 5545) Export ---
+
+const PRODID = '-//Voyage AI//Travel Handbook//ZH-TW';
+const UID_DOMAIN = 'voyage-ai';
+// Zones the UTC times were read on, so a re-import puts them back on the same clocks
+const START_ZONE_PROPERTY = 'X-VOYAGE-START-TZID';
+const END_ZONE_PROPERTY = 'X-VOYAGE-END-TZID';
+const DEFAULT_EVENT_MINUTES = 60;
+
+// Items imported from another calendar keep their original UID so re-imports match them
+export const itemCalendarUid = (item: ItineraryItem) => item.calendarUid || `${item.id}@${UID_DOMAIN}`;
+
+const escapeText = (text: string) => text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+// Content lines longer than 75 octets are folded with CRLF + space
+const foldLine = (line: string) => {
+    const encoder = new TextEncoder();
+    const parts: string[] = [];
+    let current = '';
+    let currentBytes = 0;
+    for (const char of line) {
+        const bytes = encoder.encode(char).length;
+        const limit = parts.length === 0 ? 75 : 74;
+        if (currentBytes + bytes > limit) {
+            parts.push(current);
+            current = '';
+            currentBytes = 0;
+        }
+        current += char;
+        currentBytes += bytes;
+    }
+    parts.push(current);
+    return parts.join('\r\n ');
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Local (floating) date-time: "YYYY-MM-DD" + minutes since midnight, may overflow into later days
+const formatLocalDateTime = (date: string, minutes: number) => {
+    const [y, m, d] = date.split('-').map(Number);
+    const dt = new Date(Date.UTC(y, m - 1, d, 0, minutes));
+    return `${dt.getUTCFullYear()}${pad(dt.getUTCMonth() + 1)}${pad(dt.getUTCDate())}T${pad(dt.getUTCHours())}${pad(dt.getUTCMinutes())}00`;
+};
+
+const formatUtcStamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const toMinutes = (time: string) => {
+    const [h, m] = time.split(':').map(Number);
+    return (h || 0) * 60 + (m || 0);
+};
+
+const describeItem = (item: ItineraryItem) => {
+    const details = item.bookingDetails || {};
+    const lines: string[] = [];
+    if (item.type === 'flight') {
+        if (details.airline) lines.push(`航空公司: ${details.airline}`);
+        if (details.flightNumber) lines.push(`航班: ${details.flightNumber}`);
+        if (details.terminal) lines.push(`航廈: ${details.terminal}`);
+        if (details.gate) lines.push(`登機門: ${details.gate}`);
+        if (details.seat) lines.push(`座位: ${details.seat}`);
+        if (details.class) lines.push(`艙等: ${details.class}`);
+    }
+    if (item.type === 'accommodation') {
+        if (details.checkInTime) lines.push(`入住: ${details.checkInTime}`);
+        if (details.checkOutTime) lines.push(`退房: ${details.checkOutTime}`);
+        if (details.roomType) lines.push(`房型: ${details.roomType}`);
+        if (details.guests) lines.push(`人數: ${details.guests}`);
+    }
+    if (item.note) lines.push(item.note);
+    if (item.alternatives && item.alternatives.length > 0) lines.push(`備案: ${item.alternatives.join(' / ')}`);
+    return lines.join('\n');
+};
+
+// Times are read on the clock of their own zone (a flight departs on the departure zone's
+// clock and lands on the arrival zone's) and written as UTC, which needs no VTIMEZONE
+const buildEvent = (trip: Trip, day: DayPlan, item: ItineraryItem, stamp: string, sequence: number) => {
+    const start = toMinutes(item.time);
+    const startZone = itemTimeZone(trip, item);
+    const endZone = itemEndTimeZone(trip, item);
+    const zoned = isValidTimeZone(startZone) && isValidTimeZone(endZone);
+    let endDay = day.date;
+    let end: number;
+    if (isMultiDay(item, day.date)) {
+        // Multi-day items end on their last day, at check-out for stays
+        endDay = item.endDate!;
+        const endTime = item.type === 'accommodation' ? item.bookingDetails?.checkOutTime || item.endTime : item.endTime;
+        end = endTime ? toMinutes(endTime) : 24 * 60 - 1;
+    } else if (zoned) {
+        const duration = (item.endTime && itemDurationMinutes(trip, item, day.date)) || DEFAULT_EVENT_MINUTES;
+        const arrival = wallClock(endZone, new Date(zonedInstant(startZone, day.date, start).getTime() + duration * 60000));
+        endDay = arrival.date;
+        end = toMinutes(arrival.time);
+    } else {
+        end = item.endTime ? toMinutes(item.endTime) : start + DEFAULT_EVENT_MINUTES;
+        if (end <= start) end += 24 * 60; // Over midnight
+    }
+    const dateTime = (name: string, zone: string, date: string, minutes: number) =>
+        `${name}:${zoned ? formatUtcStamp(zonedInstant(zone, date, minutes)) : formatLocalDateTime(date, minutes)}`;
+
+    const summary = item.type === 'flight' && item.bookingDetails?.flightNumber
+        ? `${item.bookingDetails.flightNumber} ${item.activity}`
+        : item.activity;
+    const description = describeItem(item);
+
+    const lines = [
+        'BEGIN:VEVENT',
+        `UID:${itemCalendarUid(item)}`,
+        `DTSTAMP:${stamp}`,
+        // Clients replace an event with the same UID when SEQUENCE is higher
+        `SEQUENCE:${sequence}`,
+        dateTime('DTSTART', startZone, day.date, start),
+        dateTime('DTEND', endZone, endDay, end),
+        ...(zoned ? [`${START_ZONE_PROPERTY}:${startZone}`, `${END_ZONE_PROPERTY}:${endZone}`] : []),
+        `SUMMARY:${escapeText(summary)}`,
+        `CATEGORIES:${item.type.toUpperCase()}`
+    ];
+    if (item.location) lines.push(`LOCATION:${escapeText(item.location)}`);
+    if (description) lines.push(`DESCRIPTION:${escapeText(description)}`);
+    if (item.isImportant) {
+        lines.push(
+            'BEGIN:VALARM',
+            'ACTION:DISPLAY',
+            `TRIGGER:-PT${item.type === 'flight' ? '3H' : '30M'}`,
+            `DESCRIPTION:${escapeText(summary)}`,
+            'END:VALARM'
+        );
+    }
+    lines.push('END:VEVENT');
+    return lines;
+};
+
+export const buildTripCalendar = (trip: Trip, now = new Date()): string => {
+    const stamp = formatUtcStamp(now);
+    const sequence = Math.floor(now.getTime() / 1000);
+    const events = (trip.itinerary || []).flatMap(day =>
+        (day.items || []).flatMap(item => buildEvent(trip, day, item, stamp, sequence))
+    );
+
+    return [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        `PRODID:${PRODID}`,
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${escapeText(trip.destination)}`,
+        ...events,
+        'END:VCALENDAR'
+    ].map(foldLine).join('\r\n') + '\r\n';
+};
+
+// --- iCalendar Import ---
+
+export interface CalendarEvent {
+    uid?: string;
+    summary: string;
+    location?: string;
+    description?: string;
+    startDate: string; // YYYY-MM-DD
+    startTime?: string; // HH:MM, missing for all-day events
+    startTimeZone?: string; // TZID the start was given in
+    endDate?: string;
+    endTime?: string;
+    endTimeZone?: string;
+}
+
+export interface CalendarImportResult {
+    trip: Trip;
+    added: number;
+    updated: number;
+    skipped: number;
+}
+
+const unescapeText = (text: string) => text
+    .replace(/\\[nN]/g, '\n')
+    .replace(/\\([,;\\])/g, '$1');
+
+// Parses DATE ("20260301") and DATE-TIME ("20260301T230000", "...Z") values.
+// TZID and floating values keep their wall-clock time; UTC values are shown on the clock of
+// tzid when given (our own exports name it), otherwise on the trip's.
+const parseDateValue = (value: string, timeZone: string, tzid?: string): { date: string; time?: string; timeZone?: string } => {
+    const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})\d{2}(Z)?)?$/);
+    if (!match) return { date: '' };
+    const [, y, mo, d, h, mi, utc] = match;
+    if (h === undefined) return { date: `${y}-${mo}-${d}` };
+    if (!utc) return { date: `${y}-${mo}-${d}`, time: `${h}:${mi}`, timeZone: isValidTimeZone(tzid) ? tzid : undefined };
+    const zone = isValidTimeZone(tzid) ? tzid : undefined;
+    return { ...wallClock(zone || (isValidTimeZone(timeZone) ? timeZone : 'UTC'), new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi))), timeZone: zone };
+};
+
+const tzidOf = (params: string) => params.match(/;TZID="?([^";:]+)"?/i)?.[1];
+
+// timeZone is the trip's; UTC times are converted to it
+export const parseCalendar = (text: string, timeZone: string): CalendarEvent[] => {
+    // Unfold continuation lines before splitting properties
+    const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+    const events: CalendarEvent[] = [];
+    let current: { [name: string]: string } | null = null;
+    let depth = 0;
+
+    lines.forEach(line => {
+        if (line === 'BEGIN:VEVENT') {
+            current = {};
+            depth = 0;
+            return;
+        }
+        if (!current) return;
+        if (line.startsWith('BEGIN:')) depth++;
+        else if (line === 'END:VEVENT') {
+            const start = parseDateValue(current.DTSTART || '', timeZone, tzidOf(current['DTSTART;'] || '') || current[START_ZONE_PROPERTY]);
+            const end = parseDateValue(current.DTEND || '', timeZone, tzidOf(current['DTEND;'] || '') || current[END_ZONE_PROPERTY]);
+            if (start.date) {
+                events.push({
+                    uid: current.UID,
+                    summary: unescapeText(current.SUMMARY || ''),
+                    location: current.LOCATION ? unescapeText(current.LOCATION) : undefined,
+                    description: current.DESCRIPTION ? unescapeText(current.DESCRIPTION) : undefined,
+                    startDate: start.date,
+                    startTime: start.time,
+                    startTimeZone: start.timeZone,
+                    endDate: end.date || undefined,
+                    endTime: end.time,
+                    endTimeZone: end.timeZone
+                });
+            }
+            current = null;
+        } else if (line.startsWith('END:')) depth--;
+        else if (depth === 0) {
+            // NAME;PARAM=...:VALUE (params kept under "NAME;", values may contain ':')
+            const colon = line.indexOf(':');
+            if (colon > 0) {
+                const [name, ...params] = line.slice(0, colon).split(';');
+                current[name.toUpperCase()] = line.slice(colon + 1);
+                if (params.length > 0) current[`${name.toUpperCase()};`] = `;${params.join(';')}`;
+            }
+        }
+    });
+    return events;
+};
+
+const FLIGHT_PATTERN = /flight|airlines?|airways|航班|班機|機票|✈/i;
+const FLIGHT_NUMBER_PATTERN = /\b([A-Z][A-Z0-9]|[A-Z0-9][A-Z])\s?(\d{2,4})\b/;
+const LODGING_PATTERN = /hotel|hostel|\binn\b|resort|airbnb|lodging|check-?in|住宿|飯店|酒店|旅館|民宿|入住/i;
+const ROUTE_PATTERN = /\b([A-Z]{3})\s*(?:→|->|–|-|to)\s*([A-Z]{3})\b/;
+
+const matchDetail = (text: string, pattern: RegExp) => text.match(pattern)?.[1];
+
+// Last day covered by an event, when it spans several days. Stays end on check-out day,
+// all-day events end at the start of the day after, and a timed event running just past
+// midnight (a night bus) still belongs to its start day.
+const eventLastDay = (event: CalendarEvent, isLodging: boolean) => {
+    if (!event.endDate || event.endDate <= event.startDate) return undefined;
+    if (isLodging) return event.endDate;
+    if (!event.startTime) {
+        const last = addDays(event.endDate, -1);
+        return last > event.startDate ? last : undefined;
+    }
+    return daysBetween(event.startDate, event.endDate) > 1 || (event.endTime || '') >= event.startTime ? event.endDate : undefined;
+};
+
+// Turns an event into the fields of an ItineraryItem, detecting flights and lodging
+// Zones are only stored on the item when they differ from the trip's
+const eventToItem = (event: CalendarEvent, tripTimeZone: string): Partial<ItineraryItem> => {
+    const text = `${event.summary}\n${event.description || ''}`;
+    // A route of IATA codes alone could be any two capitalised words, so it also needs a flight number
+    const isFlight = FLIGHT_PATTERN.test(text) || (ROUTE_PATTERN.test(event.summary) && FLIGHT_NUMBER_PATTERN.test(event.summary));
+    const isLodging = !isFlight && LODGING_PATTERN.test(text);
+    const time = event.startTime || '00:00';
+    const lastDay = isFlight ? undefined : eventLastDay(event, isLodging);
+    const startZone = event.startTimeZone || tripTimeZone;
+    const base: Partial<ItineraryItem> = {
+        time,
+        endTime: lastDay ? undefined : event.endTime,
+        endDate: lastDay,
+        timeZone: startZone !== tripTimeZone ? startZone : undefined,
+        endTimeZone: event.endTimeZone && event.endTimeZone !== startZone ? event.endTimeZone : undefined,
+        activity: event.summary,
+        location: event.location || '',
+        note: event.description,
+        type: isFlight ? 'flight' : isLodging ? 'accommodation' : 'other'
+    };
+
+    if (isFlight) {
+        const flightNumber = event.summary.match(FLIGHT_NUMBER_PATTERN) || text.match(FLIGHT_NUMBER_PATTERN);
+        const route = text.match(ROUTE_PATTERN);
+        return {
+            ...base,
+            // Same convention as the booking form: location = departure, activity = arrival
+            location: route ? route[1] : base.location,
+            activity: route ? `To ${route[2]}` : base.activity,
+            bookingDetails: {
+                airline: matchDetail(text, /(?:airline|航空公司)\s*[:：]\s*([^\n]+)/i),
+                flightNumber: flightNumber ? `${flightNumber[1]}${flightNumber[2]}` : undefined,
+                terminal: matchDetail(text, /(?:terminal|航廈)\s*[:：]?\s*([A-Z0-9]+)/i),
+                gate: matchDetail(text, /(?:gate|登機門)\s*[:：]?\s*([A-Z0-9]+)/i),
+                seat: matchDetail(text, /(?:seat|座位)\s*[:：]?\s*(\d{1,2}[A-K])/i),
+                class: matchDetail(text, /(?:class|艙等)\s*[:：]\s*([^\n]+)/i)
+            }
+        };
+    }
+    if (isLodging) {
+        const guests = matchDetail(text, /(\d+)\s*(?:guests?|adults?|位|人)/i);
+        return {
+            ...base,
+            // Same convention as the booking form: location = hotel name, activity = address
+            location: event.summary,
+            activity: event.location || event.summary,
+            bookingDetails: {
+                checkInTime: event.startTime,
+                // A multi-night stay's end time is the check-out time
+                checkOutTime: lastDay ? event.endTime : undefined,
+                guests: guests ? Number(guests) : undefined,
+                roomType: matchDetail(text, /(?:room type|房型)\s*[:：]\s*([^\n]+)/i)
+            }
+        };
+    }
+    return base;
+};
+
+const withoutEmpty = <T extends object>(obj: T): T =>
+    Object.fromEntries(Object.entries(obj).filter(([, v]) => v !== undefined && v !== '')) as T;
+
+// Places events inside the trip's dates onto the matching day.
+// Events whose UID matches an existing item (imported earlier or exported by this app) update it in place.
+export const importCalendarEvents = (trip: Trip, events: CalendarEvent[], generateId: () => string): CalendarImportResult => {
+    let added = 0;
+    let updated = 0;
+    let skipped = 0;
+
+    const itinerary = (trip.itinerary || []).map(day => ({ ...day, items: [...(day.items || [])] }));
+
+    events.forEach(event => {
+        const targetDay = itinerary.find(day => day.date === event.startDate);
+        if (!targetDay) {
+            skipped++;
+            return;
+        }
+
+        const fields = withoutEmpty(eventToItem(event, trip.timeZone));
+        const existingDay = event.uid
+            ? itinerary.find(day => day.items.some(i => i.calendarUid === event.uid || itemCalendarUid(i) === event.uid))
+            : undefined;
+
+        if (existingDay) {
+            const index = existingDay.items.findIndex(i => i.calendarUid === event.uid || itemCalendarUid(i) === event.uid);
+            const existing = existingDay.items[index];
+            const merged: ItineraryItem = {
+                ...existing,
+                ...fields,
+                bookingDetails: { ...existing.bookingDetails, ...withoutEmpty(fields.bookingDetails || {}) },
+                calendarUid: event.uid
+            };
+            existingDay.items.splice(index, 1);
+            targetDay.items.push(merged);
+            updated++;
+        } else {
+            targetDay.items.push({
+                id: generateId(),
+                ...fields,
+                time: fields.time || '00:00',
+                activity: fields.activity || '',
+                location: fields.location || '',
+                type: fields.type || 'other',
+                bookingDetails: fields.bookingDetails ? withoutEmpty(fields.bookingDetails) : undefined,
+                alternatives: [],
+                isCompleted: false,
+                calendarUid: event.uid
+            });
+            added++;
+        }
+        targetDay.items.sort((a, b) => a.time.localeCompare(b.time));
+    });
+
+    return { trip: { ...trip, itinerary }, added, updated, skipped };
+};
@@ -0,0 +1,76 @@
+import { Trip, CashEntry } from './types';
+import { isCashPayment } from './paymentMethods';
+
+// --- Cash Wallet ---
+// Exchanges and ATM withdrawals add foreign cash, expenses paid with a cash method take it
+// away, and counting the cash records the difference as an adjustment.
+
+export interface CashWallet {
+    currency: string;
+    received: number; // From exchanges and ATM withdrawals
+    spent: number; // Cash expenses
+    adjusted: number; // Net reconciliation adjustments
+    balance: number;
+    twdCost: number; // TWD paid for the cash received
+    effectiveRate?: number; // TWD per unit actually paid, fees included
+}
+
+export const cashWallets = (trip: Trip): CashWallet[] => {
+    const wallets = new Map<string, CashWallet>();
+    const walletFor = (currency: string) => {
+        if (!wallets.has(currency)) wallets.set(currency, { currency, received: 0, spent: 0, adjusted: 0, balance: 0, twdCost: 0 });
+        return wallets.get(currency)!;
+    };
+
+    trip.cashEntries.forEach(entry => {
+        const wallet = walletFor(entry.currency);
+        if (entry.type === 'adjustment') {
+            wallet.adjusted += entry.amount;
+        } else {
+            wallet.received += entry.amount;
+            wallet.twdCost += entry.twdCost;
+        }
+    });
+
+    // TWD paid in cash at home is not tracked as a wallet unless cash was recorded for it.
+    // Refunds paid out in cash are negative and put the cash back.
+    trip.expenses.forEach(e => {
+        if (!isCashPayment(trip, e.paymentMethod) || !e.foreignAmount) return;
+        if (e.currency === 'TWD' && !wallets.has('TWD')) return;
+        walletFor(e.currency).spent += e.foreignAmount;
+    });
+
+    return [...wallets.values()].map(w => ({
+        ...w,
+        balance: w.received - w.spent + w.adjusted,
+        effectiveRate: w.received > 0 && w.twdCost > 0 ? w.twdCost / w.received : undefined
+    }));
+};
+
+// Weighted average of what the cash in this currency actually cost
+export const effectiveCashRate = (trip: Trip, currency: string) =>
+    cashWallets(trip).find(w => w.currency === currency)?.effectiveRate;
+
+// Records the counted amount as the new balance; returns null when it already matches
+export const reconcileCash = (trip: Trip, currency: string, counted: number, date: string, id: string): CashEntry | null => {
+    const balance = cashWallets(trip).find(w => w.currency === currency)?.balance || 0;
+    const difference = Math.round((counted - balance) * 100) / 100;
+    if (difference === 0) return null;
+    return { id, type: 'adjustment', currency, amount: difference, twdCost: 0, date, note: `點算現金 ${counted}` };
+};
+
+// Cash expenses in foreign currency switched to the effective cash rate
+export const applyCashRates = (trip: Trip): { trip: Trip; updated: number } => {
+    let updated = 0;
+    const rates = new Map(cashWallets(trip).map(w => [w.currency, w.effectiveRate]));
+    const expenses = trip.expenses.map(e => {
+        if (!isCashPayment(trip, e.paymentMethod) || e.currency === 'TWD' || !(e.foreignAmount > 0)) return e;
+        const rate = rates.get(e.currency);
+        if (!rate) return e;
+        const twdAmount = Math.round(e.foreignAmount * rate);
+        if (twdAmount === e.twdAmount && rate === e.exchangeRate) return e;
+        updated++;
+        return { ...e, exchangeRate: rate, twdAmount };
+    });
+    return { trip: { ...trip, expenses }, updated };
+};
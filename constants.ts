@@ -0,0 +1,33 @@
+import { ExpenseCategory, ExpenseSort, SplitMode, TaxRefundStatus } from './types';
+
+// --- Shared Labels ---
+
+export const EXPENSE_CATEGORIES: { id: ExpenseCategory, label: string, color: string }[] = [
+    { id: 'flight', label: '機票', color: '#3b82f6' },
+    { id: 'accommodation', label: '住宿', color: '#ec4899' },
+    { id: 'internet', label: '網路', color: '#14b8a6' },
+    { id: 'transport', label: '交通', color: '#8b5cf6' },
+    { id: 'ticket', label: '門票', color: '#ef4444' },
+    { id: 'food', label: '飲食', color: '#f97316' },
+    { id: 'souvenir', label: '紀念品', color: '#eab308' },
+    { id: 'other', label: '其他', color: '#6b7280' },
+];
+
+export const SPLIT_MODE_LABELS: { [key in SplitMode]: string } = {
+    weighted: '依比例',
+    exact: '指定金額',
+};
+
+export const TAX_REFUND_STATUS_LABELS: { [key in TaxRefundStatus]: string } = {
+    pending: '待申請',
+    claimed: '已於機場申請',
+    received: '已退款',
+};
+
+export const EXPENSE_SORT_LABELS: { [key in ExpenseSort]: string } = {
+    'added': '最新加入',
+    'date-desc': '日期 (新到舊)',
+    'date-asc': '日期 (舊到新)',
+    'amount-desc': '金額 (高到低)',
+    'amount-asc': '金額 (低到高)',
+};
@@ -0,0 +1,204 @@
+import { Trip, Expense, ExpenseCategory, PaymentMethod } from './types';
+import { EXPENSE_CATEGORIES } from './constants';
+import { rateForCurrency } from './currencies';
+import { newExpenseSplit } from './ledger';
+import { paymentMethodName } from './paymentMethods';
+
+// --- CSV (Excel compatible) ---
+
+// Excel only detects UTF-8 when the file starts with a byte order mark
+const BOM = '\ufeff';
+
+const EXPORT_HEADERS = ['日期', '項目', '分類', '支付方式', '付款人', '分攤', '幣別', '外幣金額', '匯率', '台幣金額'];
+
+const escapeCell = (value: string | number) => {
+    const text = String(value ?? '');
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const buildExpensesCsv = (trip: Trip): string => {
+    const name = (id: string) => trip.travellers.find(t => t.id === id)?.name || id;
+    // e.g. "小明×1 / 小華×2" for weighted shares, "小明 300 / 小華 200" for exact ones
+    const shares = (e: Expense) => e.shares
+        .filter(s => s.value > 0)
+        .map(s => e.splitMode === 'exact' ? `${name(s.travellerId)} ${s.value}` : `${name(s.travellerId)}×${s.value}`)
+        .join(' / ');
+    const rows = (trip.expenses || []).map(e => [
+        e.date.split('T')[0],
+        e.item,
+        EXPENSE_CATEGORIES.find(c => c.id === e.category)?.label || e.category,
+        paymentMethodName(trip, e.paymentMethod),
+        name(e.paidBy),
+        shares(e),
+        e.currency,
+        e.foreignAmount,
+        e.exchangeRate,
+        e.twdAmount
+    ]);
+    return BOM + [EXPORT_HEADERS, ...rows].map(row => row.map(escapeCell).join(',')).join('\r\n') + '\r\n';
+};
+
+// RFC 4180 parser; the delimiter (comma, semicolon or tab) is taken from the first line
+export const parseCsv = (text: string): string[][] => {
+    const input = text.replace(/^\ufeff/, '');
+    const firstLine = input.split(/\r?\n/)[0] || '';
+    const delimiter = [',', ';', '\t'].reduce((best, d) => firstLine.split(d).length > firstLine.split(best).length ? d : best, ',');
+
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+        if (inQuotes) {
+            if (char === '"' && input[i + 1] === '"') { cell += '"'; i++; }
+            else if (char === '"') inQuotes = false;
+            else cell += char;
+        } else if (char === '"') inQuotes = true;
+        else if (char === delimiter) { row.push(cell); cell = ''; }
+        else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') i++;
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else cell += char;
+    }
+    if (cell || row.length > 0) {
+        row.push(cell);
+        rows.push(row);
+    }
+    return rows.filter(r => r.some(c => c.trim() !== ''));
+};
+
+// --- Column Mapping ---
+
+export type CsvField = 'date' | 'item' | 'amount' | 'currency' | 'twdAmount' | 'category';
+
+// Column index per field, -1 when the file has no such column
+export type CsvColumnMapping = { [key in CsvField]: number };
+
+export const CSV_FIELDS: { id: CsvField; label: string; required?: boolean }[] = [
+    { id: 'date', label: '日期', required: true },
+    { id: 'item', label: '項目 / 商店', required: true },
+    { id: 'amount', label: '金額', required: true },
+    { id: 'currency', label: '幣別' },
+    { id: 'twdAmount', label: '台幣金額' },
+    { id: 'category', label: '分類' },
+];
+
+const HEADER_HINTS: { [key in CsvField]: RegExp } = {
+    date: /date|日期|交易日|消費日/i,
+    item: /item|description|merchant|payee|項目|說明|摘要|商店|特店/i,
+    amount: /amount|金額/i,
+    currency: /currency|幣別|幣種/i,
+    twdAmount: /twd|台幣|新臺幣|新台幣|入帳金額/i,
+    category: /category|分類|類別/i,
+};
+
+export const guessCsvMapping = (headers: string[]): CsvColumnMapping => {
+    const used = new Set<number>();
+    const pick = (field: CsvField) => {
+        // The TWD column also matches the generic amount hint, so it is claimed first
+        const index = headers.findIndex((h, i) => !used.has(i) && HEADER_HINTS[field].test(h.trim()));
+        if (index >= 0) used.add(index);
+        return index;
+    };
+    const twdAmount = pick('twdAmount');
+    return { date: pick('date'), item: pick('item'), currency: pick('currency'), category: pick('category'), amount: pick('amount'), twdAmount };
+};
+
+// Card statements list charges as positive amounts. Bank account exports use one signed
+// column for both directions, where a charge is negative; only its header gives that away.
+const SIGNED_AMOUNT_HINT = /debit\s*\/\s*credit|credit\s*\/\s*debit|收支|存提|借貸/i;
+
+export const guessNegativeCharges = (headers: string[], mapping: CsvColumnMapping) =>
+    mapping.amount >= 0 && SIGNED_AMOUNT_HINT.test(headers[mapping.amount] || '');
+
+const parseAmount = (value: string) => {
+    const cleaned = value.replace(/[^\d.\-()]/g, '');
+    const negative = cleaned.startsWith('(') || cleaned.startsWith('-');
+    const amount = parseFloat(cleaned.replace(/[()\-]/g, ''));
+    return isNaN(amount) ? NaN : (negative ? -amount : amount);
+};
+
+// Accepts YYYY-MM-DD, YYYY/MM/DD, MM/DD/YYYY, DD/MM/YYYY (when the day is > 12) and
+// ROC years as in Taiwanese bank exports (115/03/01)
+const parseDate = (value: string): string | null => {
+    const parts = value.trim().split(/[\/\-.\s]/).filter(Boolean).map(Number);
+    if (parts.length < 3 || parts.some(isNaN)) return null;
+    let [y, m, d] = parts;
+    if (/^\d{1,2}[\/\-.]/.test(value.trim())) {
+        [m, d, y] = parts;
+        if (m > 12) [d, m] = [m, d];
+    }
+    if (y < 100) y += 2000;
+    else if (y < 1000) y += 1911;
+    if (m < 1 || m > 12 || d < 1 || d > 31) return null;
+    return `${y}-${String(m).padStart(2, '0')}-${String(d).padStart(2, '0')}`;
+};
+
+const matchCategory = (value: string): ExpenseCategory => {
+    const text = value.trim().toLowerCase();
+    return EXPENSE_CATEGORIES.find(c => c.id === text || c.label === value.trim())?.id || 'other';
+};
+
+export interface CsvImportRow {
+    expense: Expense;
+    duplicateOf?: Expense; // Existing entry with the same date, amount and currency
+    isCredit: boolean; // Refund or reversal, imported as a negative expense
+    error?: string;
+}
+
+export interface CsvImportOptions {
+    mapping: CsvColumnMapping;
+    defaultCurrency: string;
+    paymentMethod: PaymentMethod;
+    hasHeader: boolean;
+    negativeCharges: boolean; // Charges are the negative amounts, refunds the positive ones
+}
+
+const sameDay = (a: string, b: string) => a.split('T')[0] === b.split('T')[0];
+
+export const findDuplicateExpense = (expenses: Expense[], candidate: Expense) => expenses.find(e =>
+    sameDay(e.date, candidate.date) &&
+    e.currency === candidate.currency &&
+    (e.currency === 'TWD' ? e.twdAmount === candidate.twdAmount : e.foreignAmount === candidate.foreignAmount)
+);
+
+export const mapCsvRows = (trip: Trip, rows: string[][], options: CsvImportOptions, generateId: () => string): CsvImportRow[] => {
+    const { mapping, defaultCurrency, paymentMethod, hasHeader, negativeCharges } = options;
+    const cell = (row: string[], field: CsvField) => mapping[field] >= 0 ? (row[mapping[field]] || '').trim() : '';
+    const dataRows = rows.slice(hasHeader ? 1 : 0);
+    const chargeSign = negativeCharges ? -1 : 1;
+
+    return dataRows.map(row => {
+        const date = parseDate(cell(row, 'date'));
+        const amount = parseAmount(cell(row, 'amount')) * chargeSign;
+        const currency = (cell(row, 'currency') || defaultCurrency).toUpperCase();
+        const isTwd = currency === 'TWD';
+        const twdValue = Math.abs(parseAmount(cell(row, 'twdAmount')));
+        const hasTwdCell = !isNaN(twdValue) && twdValue > 0;
+        const twdCell = amount < 0 ? -twdValue : twdValue;
+        // Currencies missing from the rate table can still be imported when the statement has the TWD amount
+        const knownRate = rateForCurrency(trip, currency);
+        const rate = knownRate || (hasTwdCell && amount !== 0 && !isNaN(amount) ? twdValue / Math.abs(amount) : 1);
+
+        const expense: Expense = {
+            id: generateId(),
+            item: cell(row, 'item') || '匯入支出',
+            foreignAmount: isTwd ? 0 : amount || 0,
+            twdAmount: hasTwdCell ? twdCell : Math.round((amount || 0) * rate),
+            exchangeRate: rate,
+            currency,
+            category: matchCategory(cell(row, 'category')),
+            paymentMethod,
+            ...newExpenseSplit(trip),
+            date: date || trip.startDate
+        };
+
+        const error = !date ? '無法辨識日期' : isNaN(amount) ? '無法辨識金額' : !knownRate && !hasTwdCell ? `未設定 ${currency} 匯率` : undefined;
+        return { expense, error, isCredit: amount < 0, duplicateOf: error ? undefined : findDuplicateExpense(trip.expenses || [], expense) };
+    });
+};
@@ -0,0 +1,47 @@
+import { Trip, TripCurrency, Expense } from './types';
+
+// --- Trip Currencies ---
+// currencyCode/exchangeRate is the trip's main currency; extraCurrencies holds the rest.
+// Every rate is TWD per 1 unit, so twdAmount = foreignAmount * rate.
+
+export const tripCurrencies = (trip: Trip): TripCurrency[] => [
+    { code: trip.currencyCode, rate: trip.exchangeRate },
+    ...(trip.extraCurrencies || []).filter(c => c.code !== trip.currencyCode)
+];
+
+// Currencies offered in pickers: the trip's own plus TWD
+export const currencyOptions = (trip: Trip): string[] => {
+    const codes = tripCurrencies(trip).map(c => c.code);
+    return codes.includes('TWD') ? codes : [...codes, 'TWD'];
+};
+
+export const rateForCurrency = (trip: Trip, code: string): number | undefined =>
+    code === 'TWD' ? 1 : tripCurrencies(trip).find(c => c.code === code)?.rate;
+
+export const setCurrencyRate = (trip: Trip, code: string, rate: number): Trip => {
+    if (code === trip.currencyCode) return { ...trip, exchangeRate: rate };
+    const others = (trip.extraCurrencies || []).filter(c => c.code !== code);
+    return { ...trip, extraCurrencies: [...others, { code, rate }] };
+};
+
+export const removeCurrency = (trip: Trip, code: string): Trip =>
+    ({ ...trip, extraCurrencies: (trip.extraCurrencies || []).filter(c => c.code !== code) });
+
+export interface CurrencySubtotal {
+    code: string;
+    amount: number; // In the currency itself
+    twd: number;
+    count: number;
+}
+
+// TWD expenses keep their amount in twdAmount (foreignAmount is 0 for auto-created ones)
+export const currencySubtotals = (expenses: Expense[]): CurrencySubtotal[] => {
+    const totals: { [code: string]: CurrencySubtotal } = {};
+    expenses.forEach(e => {
+        const total = totals[e.currency] || (totals[e.currency] = { code: e.currency, amount: 0, twd: 0, count: 0 });
+        total.amount += e.currency === 'TWD' ? e.twdAmount : e.foreignAmount;
+        total.twd += e.twdAmount;
+        total.count++;
+    });
+    return Object.values(totals).sort((a, b) => b.twd - a.twd);
+};
@@ -0,0 +1,111 @@
+import { Trip, Expense } from './types';
+import { rateForCurrency } from './currencies';
+import { paymentBreakdown, findPaymentMethod, isCashPayment } from './paymentMethods';
+import { effectiveCashRate } from './cashWallet';
+
+// --- Exchange Rate Providers ---
+// A provider answers "how many TWD is 1 unit of <currency> on <date>".
+
+export interface ExchangeRateProvider {
+    // Resolves undefined when the provider has no rate for that currency and date, and
+    // rejects when it could not be asked (network or server error)
+    getRate: (currency: string, date: string) => Promise<number | undefined>;
+}
+
+export type RateSource = { type: 'manual' } | { type: 'http'; url: string };
+
+const RATE_SOURCE_KEY = 'voyage-rate-source';
+
+export const loadRateSource = (): RateSource => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(RATE_SOURCE_KEY) || 'null');
+        if (saved?.type === 'http' && typeof saved.url === 'string') return saved;
+    } catch (e) {
+        console.warn("Invalid rate source setting", e);
+    }
+    return { type: 'manual' };
+};
+
+export const saveRateSource = (source: RateSource) => localStorage.setItem(RATE_SOURCE_KEY, JSON.stringify(source));
+
+// The trip's own rate table; the same rate applies to every date
+export const createManualRateProvider = (trip: Trip): ExchangeRateProvider => ({
+    getRate: async (currency) => rateForCurrency(trip, currency)
+});
+
+// Frankfurter-compatible API: GET <url>/<YYYY-MM-DD>?from=JPY&to=TWD -> { "rates": { "TWD": 0.2134 } }
+// The server must quote TWD; the public ECB-based Frankfurter instance does not, so this
+// needs a TWD-capable deployment or a local stand-in. Answered lookups are cached per
+// session; failed ones are dropped from the cache so the next call asks again.
+const httpCache = new Map<string, Promise<number | undefined>>();
+
+export const createHttpRateProvider = (url: string): ExchangeRateProvider => ({
+    getRate: (currency, date) => {
+        if (currency === 'TWD') return Promise.resolve(1);
+        const request = `${url.replace(/\/+$/, '')}/${date}?from=${encodeURIComponent(currency)}&to=TWD`;
+        if (!httpCache.has(request)) {
+            httpCache.set(request, fetch(request)
+                .then(res => {
+                    if (!res.ok) throw new Error(`Rate server responded ${res.status}`);
+                    return res.json();
+                })
+                .then(data => {
+                    const rate = Number(data?.rates?.TWD);
+                    return rate > 0 ? rate : undefined;
+                })
+                .catch(e => {
+                    console.warn("Rate lookup failed", request, e);
+                    httpCache.delete(request);
+                    throw e;
+                }));
+        }
+        return httpCache.get(request)!;
+    }
+});
+
+// Falls back to the next provider when one has no answer
+const chainProviders = (...providers: ExchangeRateProvider[]): ExchangeRateProvider => ({
+    getRate: async (currency, date) => {
+        for (const provider of providers) {
+            const rate = await provider.getRate(currency, date);
+            if (rate !== undefined) return rate;
+        }
+        return undefined;
+    }
+});
+
+export const getRateProvider = (trip: Trip, source: RateSource = loadRateSource()): ExchangeRateProvider =>
+    source.type === 'http' && source.url.trim()
+        ? chainProviders(createHttpRateProvider(source.url), createManualRateProvider(trip))
+        : createManualRateProvider(trip);
+
+// --- Re-rating ---
+
+export interface RerateResult {
+    expenses: Expense[];
+    updated: number;
+    missing: string[]; // "<currency> <date>" pairs without a rate
+}
+
+// Recomputes twdAmount from foreignAmount with the rate for each expense's date.
+// Cash payments use what the cash actually cost when the wallet knows it.
+// TWD expenses and ones without a foreign amount (manually entered TWD) are left alone.
+export const rerateExpenses = async (trip: Trip, provider: ExchangeRateProvider): Promise<RerateResult> => {
+    const missing = new Set<string>();
+    let updated = 0;
+    const result = await Promise.all(trip.expenses.map(async e => {
+        if (e.currency === 'TWD' || !(e.foreignAmount > 0)) return e;
+        const date = e.date.split('T')[0];
+        const cashRate = isCashPayment(trip, e.paymentMethod) ? effectiveCashRate(trip, e.currency) : undefined;
+        const rate = cashRate ?? await provider.getRate(e.currency, date);
+        if (rate === undefined) {
+            missing.add(`${e.currency} ${date}`);
+            return e;
+        }
+        const twdAmount = Math.round(paymentBreakdown(e.foreignAmount, rate, e.currency, findPaymentMethod(trip, e.paymentMethod)).charged);
+        if (rate === e.exchangeRate && twdAmount === e.twdAmount) return e;
+        updated++;
+        return { ...e, exchangeRate: rate, twdAmount };
+    }));
+    return { expenses: result, updated, missing: [...missing] };
+};
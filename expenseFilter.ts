@@ -0,0 +1,42 @@
+import { Expense, ExpenseFilter } from './types';
+import { expenseShareAmounts } from './ledger';
+
+// --- Expense Filter ---
+// Empty lists and missing bounds match everything, so EMPTY_EXPENSE_FILTER shows the full list.
+
+export const EMPTY_EXPENSE_FILTER: ExpenseFilter = { text: '', categories: [], paymentMethods: [], currencies: [], sort: 'added' };
+
+export const isFilterActive = (filter: ExpenseFilter) =>
+    !!(filter.text.trim() || filter.categories.length || filter.paymentMethods.length || filter.currencies.length
+        || filter.paidBy || filter.sharedBy || filter.dateFrom || filter.dateTo
+        || filter.minAmount !== undefined || filter.maxAmount !== undefined);
+
+const matches = (e: Expense, filter: ExpenseFilter) => {
+    const text = filter.text.trim().toLowerCase();
+    const date = e.date.split('T')[0];
+    // Line categories count too, so a receipt with a souvenir line shows up under souvenirs
+    const categories = [e.category, ...(e.lines || []).map(l => l.category)];
+    const searchable = [e.item, e.taxRefund?.store, ...(e.lines || []).map(l => l.name)];
+    return (!text || searchable.some(s => s?.toLowerCase().includes(text)))
+        && (filter.categories.length === 0 || categories.some(c => filter.categories.includes(c)))
+        && (filter.paymentMethods.length === 0 || filter.paymentMethods.includes(e.paymentMethod))
+        && (filter.currencies.length === 0 || filter.currencies.includes(e.currency))
+        && (!filter.paidBy || e.paidBy === filter.paidBy)
+        && (!filter.sharedBy || (expenseShareAmounts(e)[filter.sharedBy] || 0) !== 0)
+        && (!filter.dateFrom || date >= filter.dateFrom)
+        && (!filter.dateTo || date <= filter.dateTo)
+        && (filter.minAmount === undefined || e.twdAmount >= filter.minAmount)
+        && (filter.maxAmount === undefined || e.twdAmount <= filter.maxAmount);
+};
+
+// 'added' keeps the newest entry first, as the list always showed it
+export const filterExpenses = (expenses: Expense[], filter: ExpenseFilter): Expense[] => {
+    const result = expenses.filter(e => matches(e, filter));
+    switch (filter.sort) {
+        case 'date-desc': return result.sort((a, b) => b.date.localeCompare(a.date));
+        case 'date-asc': return result.sort((a, b) => a.date.localeCompare(b.date));
+        case 'amount-desc': return result.sort((a, b) => b.twdAmount - a.twdAmount);
+        case 'amount-asc': return result.sort((a, b) => a.twdAmount - b.twdAmount);
+        default: return result.reverse();
+    }
+};
@@ -0,0 +1,42 @@
+import { Expense, ExpenseCategory, ExpenseLine, ExpenseShare } from './types';
+
+// --- Itemized Expenses ---
+// Line amounts are in the expense currency and add up to the amount on the receipt.
+// Each line gets the matching part of twdAmount, so card fees and rounding are spread
+// over the lines in proportion.
+
+// The receipt amount lines are checked against (before fees)
+export const lineBaseAmount = (e: Pick<Expense, 'foreignAmount' | 'twdAmount'>) =>
+    Number(e.foreignAmount) > 0 ? Number(e.foreignAmount) : Number(e.twdAmount) || 0;
+
+export const linesTotal = (lines: ExpenseLine[]) => lines.reduce((sum, l) => sum + (l.amount || 0), 0);
+
+export const linesMatchTotal = (e: Pick<Expense, 'foreignAmount' | 'twdAmount'>, lines: ExpenseLine[]) =>
+    Math.abs(linesTotal(lines) - lineBaseAmount(e)) < 0.01;
+
+export interface ExpensePart {
+    category: ExpenseCategory;
+    twd: number;
+    shares?: ExpenseShare[]; // Only set when a line has its own split
+}
+
+// The expense as a whole, or one part per line
+export const expenseParts = (e: Expense): ExpensePart[] => {
+    const total = e.lines ? linesTotal(e.lines) : 0;
+    if (!e.lines || e.lines.length === 0 || total <= 0) return [{ category: e.category, twd: e.twdAmount }];
+    return e.lines.map(l => ({
+        category: l.category,
+        twd: e.twdAmount * l.amount / total,
+        shares: l.shares && l.shares.length > 0 ? l.shares : undefined
+    }));
+};
+
+// TWD spent per category, counting each line under its own category; with categories
+// given, lines in any other category are left out
+export const categoryTotals = (expenses: Expense[], categories?: ExpenseCategory[]): { [category: string]: number } => {
+    const totals: { [category: string]: number } = {};
+    expenses.forEach(e => expenseParts(e)
+        .filter(part => !categories || categories.includes(part.category))
+        .forEach(part => totals[part.category] = (totals[part.category] || 0) + part.twd));
+    return totals;
+};
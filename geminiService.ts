@@ -1,5 +1,6 @@
 import { GoogleGenAI, Type } from "@google/generative-ai";
-import { WeatherInfo, EmergencyInfo, TravelTip, AdvancedGuide, Trip } from "../types";
+import { WeatherInfo, EmergencyInfo, TravelTip, AdvancedGuide, Trip, ExpenseCategory } from "../types";
+import { EXPENSE_CATEGORIES } from "./constants";
 
 // Helper to initialize AI
 const getAI = () => {
@@ -14,6 +15,7 @@ const getAI = () => {
 export const fetchDestinationInfo = async (destination: string, month: string, days: number): Promise<{
     currencyCode: string;
     exchangeRate: number;
+    timeZone?: string;
     weather: WeatherInfo;
     dailyWeather: string[];
     guide: string;
@@ -63,6 +65,7 @@ export const fetchDestinationInfo = async (destination: string, month: string, d
         5. Emergency contact numbers (Police, Ambulance, Taiwan Embassy/Representative if applicable, Major Hospital Name).
         6. Travel tips including: Visa requirements, Network/SIM recommendations, Cultural Taboos/Contraband (in Traditional Chinese).
         7. A short markdown travel guide (in Traditional Chinese).
+        8. IANA time zone of the destination (e.g. "Asia/Tokyo").
         `;
 
         const response = await ai.models.generateContent({
@@ -75,6 +78,7 @@ export const fetchDestinationInfo = async (destination: string, month: string, d
                     properties: {
                         currencyCode: { type: Type.STRING },
                         exchangeRate: { type: Type.NUMBER },
+                        timeZone: { type: Type.STRING },
                         weather: {
                             type: Type.OBJECT,
                             properties: {
@@ -224,3 +228,105 @@ export const analyzeItinerary = async (trip: Trip): Promise<AdvancedGuide> => {
         throw e;
     }
 };
+
+export interface ReceiptLineItem {
+    name: string;
+    quantity: number;
+    amount: number; // Line total in the receipt currency
+}
+
+export interface ReceiptAnalysis {
+    merchant: string;
+    total: number;
+    currency: string; // ISO 4217
+    date: string; // YYYY-MM-DD
+    category: ExpenseCategory;
+    lineItems: ReceiptLineItem[];
+}
+
+const RECEIPT_CATEGORIES: ExpenseCategory[] = EXPENSE_CATEGORIES.map(c => c.id);
+
+// hints fill in what the receipt doesn't show (and the whole mock result without an API key)
+export const analyzeReceipt = async (imageDataUrl: string, hints: { currency: string; date: string }): Promise<ReceiptAnalysis> => {
+    const ai = getAI();
+
+    // Mock data if no API key is provided
+    if (!ai) {
+        return {
+            merchant: "範例商店 (API Key未設定)",
+            total: 1200,
+            currency: hints.currency,
+            date: hints.date,
+            category: 'food',
+            lineItems: [
+                { name: "範例餐點", quantity: 2, amount: 1000 },
+                { name: "飲料", quantity: 1, amount: 200 }
+            ]
+        };
+    }
+
+    const [header, data] = imageDataUrl.split(',');
+    const mimeType = header.match(/^data:([^;]+)/)?.[1] || 'image/jpeg';
+
+    try {
+        const prompt = `
+        Read this receipt from a trip and return JSON.
+        - 'merchant': Store or restaurant name as printed.
+        - 'total': Final amount paid (after tax and discounts), as a number.
+        - 'currency': ISO 4217 code. If the receipt doesn't show it, use ${hints.currency}.
+        - 'date': Purchase date as YYYY-MM-DD. If it's not readable, use ${hints.date}.
+        - 'category': One of ${RECEIPT_CATEGORIES.join(', ')}.
+        - 'lineItems': Each purchased item with 'name' (translated to Traditional Chinese 繁體中文, keep the original in brackets), 'quantity' and 'amount' (line total).
+        `;
+
+        const response = await ai.models.generateContent({
+            model: "gemini-3-flash-preview",
+            contents: {
+                parts: [
+                    { inlineData: { mimeType, data } },
+                    { text: prompt }
+                ]
+            },
+            config: {
+                responseMimeType: "application/json",
+                responseSchema: {
+                    type: Type.OBJECT,
+                    properties: {
+                        merchant: { type: Type.STRING },
+                        total: { type: Type.NUMBER },
+                        currency: { type: Type.STRING },
+                        date: { type: Type.STRING },
+                        category: { type: Type.STRING, enum: RECEIPT_CATEGORIES },
+                        lineItems: {
+                            type: Type.ARRAY,
+                            items: {
+                                type: Type.OBJECT,
+                                properties: {
+                                    name: { type: Type.STRING },
+                                    quantity: { type: Type.NUMBER },
+                                    amount: { type: Type.NUMBER }
+                                }
+                            }
+                        }
+                    },
+                    required: ["merchant", "total", "currency", "date", "category", "lineItems"]
+                }
+            }
+        });
+
+        const result = JSON.parse(response.text || "{}");
+        return {
+            merchant: result.merchant || '',
+            total: Number(result.total) || 0,
+            currency: (result.currency || hints.currency).toUpperCase(),
+            date: /^\d{4}-\d{2}-\d{2}$/.test(result.date) ? result.date : hints.date,
+            category: RECEIPT_CATEGORIES.includes(result.category) ? result.category : 'other',
+            lineItems: Array.isArray(result.lineItems)
+                ? result.lineItems.map((line: any) => ({ name: String(line?.name ?? ''), quantity: Number(line?.quantity) || 1, amount: Number(line?.amount) || 0 }))
+                : []
+        };
+    } catch (e) {
+        console.error("Receipt Analysis Failed", e);
+        throw e;
+    }
+};
@@ -0,0 +1,106 @@
+import { Trip, ItineraryItem } from './types';
+import { parseDuration } from './scheduleValidator';
+import { addDays, daysBetween } from './multiDay';
+
+// --- Moving Items ---
+// Items keep the order they are given on a day; a time is only used to place an item
+// that has no position yet. dayIndex null stands for trip.unscheduled, the ideas list.
+
+export interface ItemLocation {
+    item: ItineraryItem;
+    dayIndex: number | null;
+    index: number;
+}
+
+const toMinutes = (time?: string) => {
+    const match = time?.match(/^(\d{1,2}):(\d{2})/);
+    return match ? Number(match[1]) * 60 + Number(match[2]) : undefined;
+};
+
+const toTime = (minutes: number) => {
+    const clamped = Math.min(Math.max(Math.round(minutes), 0), 24 * 60 - 1);
+    return `${String(Math.floor(clamped / 60)).padStart(2, '0')}:${String(clamped % 60).padStart(2, '0')}`;
+};
+
+export const findItem = (trip: Trip, itemId: string): ItemLocation | undefined => {
+    for (let dayIndex = 0; dayIndex < trip.itinerary.length; dayIndex++) {
+        const index = trip.itinerary[dayIndex].items.findIndex(i => i.id === itemId);
+        if (index >= 0) return { item: trip.itinerary[dayIndex].items[index], dayIndex, index };
+    }
+    const index = trip.unscheduled.findIndex(i => i.id === itemId);
+    return index >= 0 ? { item: trip.unscheduled[index], dayIndex: null, index } : undefined;
+};
+
+// Inserts an item among the others without reordering them: open items before completed
+// ones, and before the first one that starts later
+export const placeByTime = (items: ItineraryItem[], item: ItineraryItem): ItineraryItem[] => {
+    const rest = items.filter(i => i.id !== item.id);
+    const index = rest.findIndex(i => !!i.isCompleted !== !!item.isCompleted
+        ? !!i.isCompleted
+        : !!item.time && i.time > item.time);
+    return index < 0 ? [...rest, item] : [...rest.slice(0, index), item, ...rest.slice(index)];
+};
+
+// Moves the start time and keeps the duration
+export const retime = (item: ItineraryItem, time: string): ItineraryItem => {
+    const start = toMinutes(item.time);
+    const end = toMinutes(item.endTime);
+    if (start === undefined || end === undefined) return { ...item, time };
+    const duration = end >= start ? end - start : end + 24 * 60 - start;
+    return { ...item, time, endTime: toTime((toMinutes(time)! + duration) % (24 * 60)) };
+};
+
+// A start time that puts the item between its neighbours at index (items without the
+// item itself), or undefined when its own time already fits there
+export const slotTime = (items: ItineraryItem[], index: number, item: ItineraryItem): string | undefined => {
+    const prev = items[index - 1];
+    const next = items[index];
+    const own = toMinutes(item.time);
+    const prevStart = toMinutes(prev?.time);
+    const nextStart = toMinutes(next?.time);
+    if (own !== undefined && (prevStart === undefined || prevStart <= own) && (nextStart === undefined || own <= nextStart)) return undefined;
+
+    let start: number;
+    if (prevStart !== undefined) {
+        const prevEnd = toMinutes(prev.endTime);
+        start = (prevEnd !== undefined && prevEnd >= prevStart ? prevEnd : prevStart) + (parseDuration(prev.travelTime) || 0);
+    } else if (nextStart !== undefined) {
+        const duration = own !== undefined && toMinutes(item.endTime) !== undefined ? Math.max(toMinutes(item.endTime)! - own, 0) : 60;
+        start = nextStart - duration - (parseDuration(item.travelTime) || 0);
+    } else {
+        return own === undefined ? '09:00' : undefined;
+    }
+    if (nextStart !== undefined && start > nextStart) start = prevStart !== undefined ? (prevStart + nextStart) / 2 : nextStart;
+    start = Math.round(start / 5) * 5;
+    return toTime(Math.min(Math.max(start, prevStart ?? 0), nextStart ?? 24 * 60 - 1));
+};
+
+// Moves an item to a day (at index, or by time when index is missing) or to the ideas list.
+// Between days, a multi-day item's end and its linked expenses move along with it. Coming
+// from the ideas list its original start is unknown, so an end that is no longer after
+// the new day is dropped rather than left pointing before the start.
+export const moveItem = (trip: Trip, itemId: string, dayIndex: number | null, index?: number, time?: string): Trip => {
+    const from = findItem(trip, itemId);
+    if (!from) return trip;
+    const delta = from.dayIndex !== null && dayIndex !== null ? daysBetween(trip.itinerary[from.dayIndex].date, trip.itinerary[dayIndex].date) : 0;
+    let item = time ? retime(from.item, time) : from.item;
+    if (delta && item.endDate) item = { ...item, endDate: addDays(item.endDate, delta) };
+    if (from.dayIndex === null && dayIndex !== null && item.endDate && daysBetween(trip.itinerary[dayIndex].date, item.endDate) <= 0) {
+        item = { ...item, endDate: undefined };
+    }
+
+    const itinerary = trip.itinerary.map(day => ({ ...day, items: day.items.filter(i => i.id !== itemId) }));
+    const unscheduled = trip.unscheduled.filter(i => i.id !== itemId);
+    const insert = (items: ItineraryItem[]) => index === undefined
+        ? (dayIndex === null ? [...items, item] : placeByTime(items, item))
+        : [...items.slice(0, index), item, ...items.slice(index)];
+    if (dayIndex === null) return { ...trip, itinerary, unscheduled: insert(unscheduled) };
+
+    itinerary[dayIndex] = { ...itinerary[dayIndex], items: insert(itinerary[dayIndex].items) };
+    return {
+        ...trip,
+        itinerary,
+        unscheduled,
+        expenses: delta ? trip.expenses.map(e => e.itemId === itemId ? { ...e, date: addDays(e.date, delta) + e.date.slice(10) } : e) : trip.expenses
+    };
+};
@@ -0,0 +1,135 @@
+import { Trip, Expense, ExpenseShare } from './types';
+import { expenseParts } from './expenseLines';
+
+// --- Traveller Ledger ---
+// Each expense has a payer and a list of shares. Weighted shares split the TWD amount
+// by weight; exact shares are amounts in the expense currency and must add up to it.
+
+// New expenses are paid by the first traveller and split evenly between everyone
+export const newExpenseSplit = (trip: Trip): Pick<Expense, 'paidBy' | 'splitMode' | 'shares'> => ({
+    paidBy: trip.travellers[0]?.id || '',
+    splitMode: 'weighted',
+    shares: trip.travellers.map(t => ({ travellerId: t.id, value: 1 }))
+});
+
+// The amount exact shares are measured against (TWD expenses keep it in twdAmount)
+export const expenseTotal = (e: Expense) => e.currency === 'TWD' ? e.twdAmount : e.foreignAmount;
+
+export const sharesTotal = (shares: ExpenseShare[]) => shares.reduce((sum, s) => sum + (s.value || 0), 0);
+
+const splitAmount = (result: { [travellerId: string]: number }, amount: number, allShares: ExpenseShare[], paidBy: string) => {
+    const shares = allShares.filter(s => s.value > 0);
+    const total = sharesTotal(shares);
+    if (total <= 0) {
+        // Nobody assigned: the payer carries it
+        result[paidBy] = (result[paidBy] || 0) + amount;
+        return;
+    }
+    shares.forEach(s => result[s.travellerId] = (result[s.travellerId] || 0) + amount * s.value / total);
+};
+
+// TWD owed by each traveller for one expense. Lines with their own split are shared
+// by weight; the rest of the expense follows the expense's split.
+export const expenseShareAmounts = (e: Expense): { [travellerId: string]: number } => {
+    const result: { [travellerId: string]: number } = {};
+    let rest = 0;
+    expenseParts(e).forEach(part => {
+        if (part.shares) splitAmount(result, part.twd, part.shares, e.paidBy);
+        else rest += part.twd;
+    });
+    if (rest !== 0) splitAmount(result, rest, e.shares, e.paidBy);
+    return result;
+};
+
+export interface TravellerBalance {
+    travellerId: string;
+    paid: number; // TWD
+    owed: number; // TWD, this traveller's part of all expenses
+    net: number; // paid - owed; positive means others owe them
+}
+
+export const travellerBalances = (trip: Trip): TravellerBalance[] => {
+    const balances = new Map(trip.travellers.map(t => [t.id, { travellerId: t.id, paid: 0, owed: 0, net: 0 }]));
+    const balanceFor = (id: string) => {
+        if (!balances.has(id)) balances.set(id, { travellerId: id, paid: 0, owed: 0, net: 0 });
+        return balances.get(id)!;
+    };
+    trip.expenses.forEach(e => {
+        balanceFor(e.paidBy).paid += e.twdAmount;
+        Object.entries(expenseShareAmounts(e)).forEach(([id, amount]) => balanceFor(id).owed += amount);
+    });
+    return [...balances.values()].map(b => ({ ...b, net: b.paid - b.owed }));
+};
+
+export const isTravellerUsed = (trip: Trip, travellerId: string) =>
+    trip.expenses.some(e => e.paidBy === travellerId || e.shares.some(s => s.travellerId === travellerId && s.value > 0)
+        || (e.lines || []).some(l => (l.shares || []).some(s => s.travellerId === travellerId && s.value > 0)));
+
+// --- Settle Up ---
+
+export interface Transfer {
+    from: string; // Traveller id
+    to: string;
+    amount: number; // TWD
+}
+
+// Greedy within one zero-sum group: k people always settle in k - 1 transfers
+const settleGroup = (group: { id: string; net: number }[]): Transfer[] => {
+    const people = group.map(p => ({ ...p }));
+    const transfers: Transfer[] = [];
+    while (true) {
+        const creditor = people.reduce((a, b) => b.net > a.net ? b : a);
+        const debtor = people.reduce((a, b) => b.net < a.net ? b : a);
+        if (creditor.net <= 0 || debtor.net >= 0) return transfers;
+        const amount = Math.min(creditor.net, -debtor.net);
+        transfers.push({ from: debtor.id, to: creditor.id, amount });
+        creditor.net -= amount;
+        debtor.net += amount;
+    }
+};
+
+// Beyond this, the subset search gets too large and we fall back to a single greedy pass
+const MAX_EXACT_SETTLEMENT = 16;
+
+// Fewest transfers that bring every balance to zero. Splitting the group into as many
+// zero-sum subgroups as possible minimises the count (each subgroup of k needs k - 1).
+export const settleUp = (balances: TravellerBalance[]): Transfer[] => {
+    const people = balances.map(b => ({ id: b.travellerId, net: Math.round(b.net) })).filter(p => p.net !== 0);
+    // Rounding can leave the total a few dollars off zero; the largest balance absorbs it
+    const drift = people.reduce((sum, p) => sum + p.net, 0);
+    if (drift !== 0 && people.length > 0) {
+        people.reduce((a, b) => Math.abs(b.net) > Math.abs(a.net) ? b : a).net -= drift;
+    }
+    const n = people.length;
+    if (n === 0) return [];
+    if (n > MAX_EXACT_SETTLEMENT) return settleGroup(people);
+
+    const full = (1 << n) - 1;
+    const sums = new Array<number>(full + 1).fill(0);
+    const groups = new Array<number>(full + 1).fill(0); // Max zero-sum groups reachable along a removal chain
+    for (let mask = 1; mask <= full; mask++) {
+        const low = mask & -mask;
+        sums[mask] = sums[mask ^ low] + people[31 - Math.clz32(low)].net;
+        let best = 0;
+        for (let i = 0; i < n; i++) {
+            if (mask & (1 << i)) best = Math.max(best, groups[mask ^ (1 << i)]);
+        }
+        groups[mask] = best + (sums[mask] === 0 ? 1 : 0);
+    }
+
+    // Walk back from the full set; every zero-sum mask on the way closes a group
+    const transfers: Transfer[] = [];
+    let mask = full;
+    let current: { id: string; net: number }[] = [];
+    while (mask) {
+        const target = groups[mask] - (sums[mask] === 0 ? 1 : 0);
+        const i = people.findIndex((_, j) => (mask & (1 << j)) && groups[mask ^ (1 << j)] === target);
+        current.push(people[i]);
+        mask ^= 1 << i;
+        if (sums[mask] === 0) {
+            transfers.push(...settleGroup(current));
+            current = [];
+        }
+    }
+    return transfers;
+};
@@ -0,0 +1,178 @@
+import { Trip, ItineraryItem, Expense, ChecklistItem } from './types';
+
+// --- Trip Merge ---
+// Copies of the same trip (share links, exported files) keep the originId of the trip
+// they were created from, so a re-sent trip can be matched to the copy we already have.
+
+export type MergeSection = 'itinerary' | 'expenses' | 'checklist';
+
+// added: only in the incoming trip, removed: only in ours, changed: in both but different
+export type MergeChange = 'added' | 'removed' | 'changed';
+
+export type MergeSide = 'local' | 'incoming';
+
+export interface MergeEntry {
+    key: string; // `${section}:${id}`
+    section: MergeSection;
+    id: string;
+    change: MergeChange;
+    label: string;
+    fields?: string[]; // Changed fields, for 'changed' entries
+}
+
+export type MergeChoices = { [key: string]: MergeSide };
+
+export const findMergeTarget = (trips: Trip[], incoming: Trip) => trips.find(t => t.originId === incoming.originId);
+
+// Share links drop booking images and receipt photos, which must not read as a change
+const ATTACHMENT_FIELDS = ['bookingImage', 'photo'];
+
+const keepLocalAttachments = <T extends object>(local: T | undefined, incoming: T): T => {
+    if (!local) return incoming;
+    const source = local as Record<string, unknown>;
+    const result: Record<string, unknown> = { ...(incoming as Record<string, unknown>) };
+    ATTACHMENT_FIELDS.forEach(field => {
+        if (result[field] === undefined && source[field] !== undefined) result[field] = source[field];
+    });
+    return result as T;
+};
+
+const changedFields = (a: Record<string, unknown>, b: Record<string, unknown>) => {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return [...keys].filter(k => JSON.stringify(a[k]) !== JSON.stringify(b[k]));
+};
+
+interface Located<T> { value: T; date?: string; index: number }
+
+const indexById = <T extends { id: string }>(list: T[], date?: (index: number) => string | undefined) => {
+    const map = new Map<string, Located<T>>();
+    list.forEach((value, index) => map.set(value.id, { value, date: date?.(index), index }));
+    return map;
+};
+
+// Unscheduled items have no date
+const flattenItinerary = (trip: Trip) => {
+    const items: ItineraryItem[] = [];
+    const dates: (string | undefined)[] = [];
+    trip.itinerary.forEach(day => day.items.forEach(item => { items.push(item); dates.push(day.date); }));
+    (trip.unscheduled || []).forEach(item => { items.push(item); dates.push(undefined); });
+    return { items, dates };
+};
+
+const diffSection = <T extends { id: string }>(
+    section: MergeSection,
+    local: Map<string, Located<T>>,
+    incoming: Map<string, Located<T>>,
+    label: (value: T, date?: string) => string
+): MergeEntry[] => {
+    const entries: MergeEntry[] = [];
+    incoming.forEach((theirs, id) => {
+        const ours = local.get(id);
+        if (!ours) {
+            entries.push({ key: `${section}:${id}`, section, id, change: 'added', label: label(theirs.value, theirs.date) });
+            return;
+        }
+        const merged = keepLocalAttachments(ours.value, theirs.value);
+        const fields = changedFields(ours.value, merged);
+        if (ours.date !== theirs.date) fields.unshift('date');
+        if (fields.length > 0) {
+            entries.push({ key: `${section}:${id}`, section, id, change: 'changed', label: label(theirs.value, theirs.date), fields });
+        }
+    });
+    local.forEach((ours, id) => {
+        if (!incoming.has(id)) entries.push({ key: `${section}:${id}`, section, id, change: 'removed', label: label(ours.value, ours.date) });
+    });
+    return entries;
+};
+
+export const diffTrips = (local: Trip, incoming: Trip): MergeEntry[] => {
+    const ours = flattenItinerary(local);
+    const theirs = flattenItinerary(incoming);
+    return [
+        ...diffSection<ItineraryItem>('itinerary', indexById(ours.items, i => ours.dates[i]), indexById(theirs.items, i => theirs.dates[i]),
+            (item, date) => `${date || '未排定'} ${item.time} ${item.activity}`.trim()),
+        ...diffSection<Expense>('expenses', indexById(local.expenses), indexById(incoming.expenses),
+            e => `${e.date.split('T')[0]} ${e.item}`),
+        ...diffSection<ChecklistItem>('checklist', indexById(local.checklist), indexById(incoming.checklist),
+            c => c.text)
+    ];
+};
+
+// Without a common ancestor we cannot tell whether an item missing on one side was
+// deleted there or added here, so items only we have are kept unless chosen otherwise.
+export const defaultMergeChoices = (entries: MergeEntry[]): MergeChoices =>
+    Object.fromEntries(entries.map(e => [e.key, e.change === 'removed' ? 'local' : 'incoming']));
+
+const mergeList = <T extends { id: string }>(section: MergeSection, local: T[], incoming: T[], entries: MergeEntry[], choices: MergeChoices): T[] => {
+    const theirs = indexById(incoming);
+    let result = [...local];
+    entries.filter(e => e.section === section && choices[e.key] === 'incoming').forEach(entry => {
+        if (entry.change === 'removed') {
+            result = result.filter(v => v.id !== entry.id);
+            return;
+        }
+        const value = theirs.get(entry.id)!.value;
+        const index = result.findIndex(v => v.id === entry.id);
+        if (index >= 0) result[index] = keepLocalAttachments(result[index], value);
+        else result.push(value);
+    });
+    return result;
+};
+
+const mergeItinerary = (local: Trip, incoming: Trip, entries: MergeEntry[], choices: MergeChoices) => {
+    const days = local.itinerary.map(day => ({ ...day, items: [...day.items] }));
+    let unscheduled = [...(local.unscheduled || [])];
+    const theirs = flattenItinerary(incoming);
+    const touched = new Set<number>();
+
+    // Days are matched by date; if the trips cover different dates, fall back to the same day number
+    const dayIndexFor = (date: string) => {
+        const byDate = days.findIndex(d => d.date === date);
+        if (byDate >= 0) return byDate;
+        const byNumber = incoming.itinerary.findIndex(d => d.date === date);
+        return Math.min(Math.max(byNumber, 0), days.length - 1);
+    };
+
+    entries.filter(e => e.section === 'itinerary' && choices[e.key] === 'incoming').forEach(entry => {
+        let previous: ItineraryItem | undefined;
+        days.forEach(day => {
+            const index = day.items.findIndex(i => i.id === entry.id);
+            if (index >= 0) previous = day.items.splice(index, 1)[0];
+        });
+        previous = previous || unscheduled.find(i => i.id === entry.id);
+        unscheduled = unscheduled.filter(i => i.id !== entry.id);
+        if (entry.change === 'removed') return;
+
+        const position = theirs.items.findIndex(i => i.id === entry.id);
+        const date = theirs.dates[position];
+        if (date === undefined || days.length === 0) {
+            unscheduled.push(keepLocalAttachments(previous, theirs.items[position]));
+            return;
+        }
+        const dayIndex = dayIndexFor(date);
+        days[dayIndex].items.push(keepLocalAttachments(previous, theirs.items[position]));
+        touched.add(dayIndex);
+    });
+
+    touched.forEach(i => days[i].items.sort((a, b) => a.time.localeCompare(b.time)));
+    return { itinerary: days, unscheduled };
+};
+
+// Ours first, then theirs that we do not have
+const unionBy = <T>(local: T[], incoming: T[], key: (value: T) => string) =>
+    [...local, ...(incoming || []).filter(v => !local.some(l => key(l) === key(v)))];
+
+// Applies the chosen side of every entry on top of our copy; everything else stays ours.
+// Travellers, payment methods, currencies and cash entries only they know are added so
+// that merged expenses keep their payer, shares, fees, rate and cash balance.
+export const mergeTrips = (local: Trip, incoming: Trip, entries: MergeEntry[], choices: MergeChoices): Trip => ({
+    ...local,
+    travellers: unionBy(local.travellers, incoming.travellers, t => t.id),
+    paymentMethods: unionBy(local.paymentMethods, incoming.paymentMethods, m => m.id),
+    extraCurrencies: unionBy(local.extraCurrencies, [{ code: incoming.currencyCode, rate: incoming.exchangeRate }, ...(incoming.extraCurrencies || [])], c => c.code)
+        .filter(c => c.code !== local.currencyCode),
+    cashEntries: unionBy(local.cashEntries, incoming.cashEntries, e => e.id),
+    ...mergeItinerary(local, incoming, entries, choices),
+    expenses: mergeList('expenses', local.expenses, incoming.expenses, entries, choices),
+    checklist: mergeList('checklist', local.checklist, incoming.checklist, entries, choices)
+});
@@ -0,0 +1,62 @@
+import { Trip, ItineraryItem } from './types';
+
+// --- Multi-day Items ---
+// An item is stored on the day it starts; endDate marks the last day it covers.
+// For a stay that is the check-out day, so the nights are the days before it.
+
+export type SpanRole = 'staying' | 'checkOut' | 'active';
+
+export interface SpanningItem {
+    item: ItineraryItem;
+    startIndex: number;
+    role: SpanRole;
+    dayNumber: number; // 1-based position of the day within the item
+    totalDays: number; // Nights for a stay, days otherwise
+}
+
+const dateKey = (date: string) => date.split('T')[0];
+
+export const daysBetween = (from: string, to: string) =>
+    Math.round((Date.parse(dateKey(to)) - Date.parse(dateKey(from))) / 86400000);
+
+export const addDays = (date: string, days: number) =>
+    new Date(Date.parse(dateKey(date)) + days * 86400000).toISOString().split('T')[0];
+
+export const isMultiDay = (item: ItineraryItem, startDate: string) => !!item.endDate && daysBetween(startDate, item.endDate) > 0;
+
+// Nights of a stay, or days of anything else; 1 for single-day items
+export const spanLength = (item: ItineraryItem, startDate: string) => {
+    if (!isMultiDay(item, startDate)) return 1;
+    const days = daysBetween(startDate, item.endDate!);
+    return item.type === 'accommodation' ? days : days + 1;
+};
+
+// Items that started on an earlier day and still cover this one
+export const spanningItems = (trip: Trip, dayIndex: number): SpanningItem[] => {
+    const day = trip.itinerary[dayIndex];
+    if (!day) return [];
+    return trip.itinerary.slice(0, dayIndex).flatMap((start, startIndex) => start.items
+        .filter(item => isMultiDay(item, start.date) && dateKey(item.endDate!) >= dateKey(day.date))
+        .map(item => {
+            const offset = daysBetween(start.date, day.date);
+            const isStay = item.type === 'accommodation';
+            const role: SpanRole = !isStay ? 'active' : dateKey(item.endDate!) === dateKey(day.date) ? 'checkOut' : 'staying';
+            return { item, startIndex, role, dayNumber: offset + 1, totalDays: spanLength(item, start.date) };
+        }));
+};
+
+// Cost per night of a stay (or per day), in the item's cost currency
+export const costPerDay = (item: ItineraryItem, startDate: string) =>
+    item.cost ? item.cost / spanLength(item, startDate) : 0;
+
+// Stays from the bookings form keep the hotel name in location and the address in activity
+export const spanTitle = (item: ItineraryItem) =>
+    item.type === 'accommodation' && item.bookingDetails ? item.location || item.activity : item.activity;
+
+export const spanLengthLabel = (item: ItineraryItem, startDate: string) =>
+    `${spanLength(item, startDate)} ${item.type === 'accommodation' ? '晚' : '天'}`;
+
+export const spanningLabel = (span: SpanningItem) => {
+    if (span.role === 'checkOut') return `退房${span.item.bookingDetails?.checkOutTime ? ` ${span.item.bookingDetails.checkOutTime}` : ''}`;
+    return span.role === 'staying' ? `住宿中 · 第 ${span.dayNumber}/${span.totalDays} 晚` : `使用中 · 第 ${span.dayNumber}/${span.totalDays} 天`;
+};
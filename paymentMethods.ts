@@ -0,0 +1,65 @@
+import { Trip, Expense, PaymentMethodConfig } from './types';
+
+// --- Payment Methods ---
+// Fees and rewards are worked out in TWD: the foreign transaction fee applies to
+// foreign-currency payments only, the fixed fee to every payment.
+
+// Ids match the methods that were built in before they became configurable
+export const DEFAULT_PAYMENT_METHODS: PaymentMethodConfig[] = [
+    { id: 'cash', name: '現金', feePercent: 0, fixedFee: 0, cashbackPercent: 0, isCash: true },
+    { id: 'cube_card', name: 'Cube卡', feePercent: 1.5, fixedFee: 0, cashbackPercent: 0, isCash: false },
+    { id: 'credit_card', name: '信用卡', feePercent: 1.5, fixedFee: 0, cashbackPercent: 0, isCash: false },
+];
+
+export const defaultPaymentMethod = (trip: Trip) => trip.paymentMethods[0]?.id || 'cash';
+
+export const findPaymentMethod = (trip: Trip, id: string) => trip.paymentMethods.find(m => m.id === id);
+
+export const paymentMethodName = (trip: Trip, id: string) => findPaymentMethod(trip, id)?.name || id;
+
+export interface PaymentBreakdown {
+    base: number; // amount * rate
+    fee: number;
+    charged: number; // What the statement shows, stored as twdAmount
+    reward: number;
+    net: number; // charged - reward
+}
+
+export const paymentBreakdown = (amount: number, rate: number, currency: string, method?: PaymentMethodConfig): PaymentBreakdown => {
+    const base = amount * rate;
+    const fee = method ? (currency !== 'TWD' ? base * method.feePercent / 100 : 0) + (amount > 0 ? method.fixedFee : 0) : 0;
+    const charged = base + fee;
+    const reward = method ? charged * method.cashbackPercent / 100 : 0;
+    return { base, fee, charged, reward, net: charged - reward };
+};
+
+export interface PaymentMethodStats {
+    methodId: string;
+    count: number;
+    charged: number;
+    fees: number;
+    rewards: number;
+    net: number;
+}
+
+// Based on the recorded twdAmount, so hand-corrected amounts are respected;
+// the fee is whatever was charged above the plain conversion.
+export const paymentMethodStats = (trip: Trip): PaymentMethodStats[] => {
+    const stats = new Map<string, PaymentMethodStats>();
+    trip.expenses.forEach((e: Expense) => {
+        const stat = stats.get(e.paymentMethod) || { methodId: e.paymentMethod, count: 0, charged: 0, fees: 0, rewards: 0, net: 0 };
+        const base = e.foreignAmount > 0 ? e.foreignAmount * e.exchangeRate : e.twdAmount;
+        const reward = e.twdAmount * (findPaymentMethod(trip, e.paymentMethod)?.cashbackPercent || 0) / 100;
+        stat.count++;
+        stat.charged += e.twdAmount;
+        stat.fees += Math.max(0, e.twdAmount - base);
+        stat.rewards += reward;
+        stat.net += e.twdAmount - reward;
+        stats.set(e.paymentMethod, stat);
+    });
+    return [...stats.values()].sort((a, b) => b.charged - a.charged);
+};
+
+export const isCashPayment = (trip: Trip, id: string) => !!findPaymentMethod(trip, id)?.isCash;
+
+export const isPaymentMethodUsed = (trip: Trip, id: string) => trip.expenses.some(e => e.paymentMethod === id);
@@ -0,0 +1,91 @@
+import { Trip, Expense, ExpenseCategory, ActivityType, ItineraryItem } from './types';
+import { rateForCurrency } from './currencies';
+import { expenseParts } from './expenseLines';
+import { newExpenseSplit } from './ledger';
+import { defaultPaymentMethod, findPaymentMethod, paymentBreakdown } from './paymentMethods';
+
+// --- Planned vs. Actual ---
+// An itinerary item's cost is what we plan to spend. The actual amount is an expense
+// linked to the item through itemId, recorded when the item is done.
+
+export const categoryForActivity = (type: ActivityType): ExpenseCategory => {
+    switch (type) {
+        case 'flight': return 'flight';
+        case 'attraction': return 'ticket';
+        case 'food': return 'food';
+        case 'transport': return 'transport';
+        case 'accommodation': return 'accommodation';
+        default: return 'other';
+    }
+};
+
+export const plannedCurrency = (item: ItineraryItem) => item.costCurrency || 'TWD';
+
+// Converted at today's rate in the trip's table; 0 when the currency has no rate
+export const plannedCostTwd = (trip: Trip, item: ItineraryItem) =>
+    (item.cost || 0) * (rateForCurrency(trip, plannedCurrency(item)) || 0);
+
+export const linkedExpense = (trip: Trip, itemId: string) => trip.expenses.find(e => e.itemId === itemId);
+
+// The actual cost of an item, paid with the default method
+export const actualExpenseForItem = (trip: Trip, item: ItineraryItem, amount: number, currency: string, date: string, id: string): Expense => {
+    const rate = rateForCurrency(trip, currency) || 1;
+    const method = defaultPaymentMethod(trip);
+    return {
+        id,
+        itemId: item.id,
+        item: item.activity,
+        foreignAmount: amount,
+        twdAmount: Math.round(paymentBreakdown(amount, rate, currency, findPaymentMethod(trip, method)).charged),
+        exchangeRate: rate,
+        currency,
+        category: categoryForActivity(item.type),
+        paymentMethod: method,
+        ...newExpenseSplit(trip),
+        date
+    };
+};
+
+export interface PlanComparison {
+    key: string; // Date, or category id
+    planned: number; // TWD
+    actual: number; // TWD
+}
+
+export interface PlanReport {
+    days: PlanComparison[];
+    categories: PlanComparison[];
+    preTrip: number; // Unlinked spending before the first day
+}
+
+// Actual spending is every expense: linked ones count on their item's day, others on
+// their own date, so unplanned spending shows up as variance too.
+export const planReport = (trip: Trip): PlanReport => {
+    const days = trip.itinerary.map(d => ({ key: d.date.split('T')[0], planned: 0, actual: 0 }));
+    const categories = new Map<string, PlanComparison>();
+    const categoryFor = (key: string) => {
+        if (!categories.has(key)) categories.set(key, { key, planned: 0, actual: 0 });
+        return categories.get(key)!;
+    };
+    const itemDay = new Map<string, number>();
+    let preTrip = 0;
+
+    trip.itinerary.forEach((day, index) => day.items.forEach(item => {
+        itemDay.set(item.id, index);
+        const planned = plannedCostTwd(trip, item);
+        if (planned <= 0) return;
+        days[index].planned += planned;
+        categoryFor(categoryForActivity(item.type)).planned += planned;
+    }));
+
+    trip.expenses.forEach(e => {
+        expenseParts(e).forEach(part => categoryFor(part.category).actual += part.twd);
+        const linkedDay = e.itemId !== undefined ? itemDay.get(e.itemId) : undefined;
+        const date = e.date.split('T')[0];
+        const index = linkedDay ?? days.map(d => d.key).filter(d => d <= date).length - 1;
+        if (index < 0) preTrip += e.twdAmount;
+        else days[index].actual += e.twdAmount;
+    });
+
+    return { days, categories: [...categories.values()].filter(c => c.planned > 0 || c.actual > 0), preTrip };
+};
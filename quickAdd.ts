@@ -0,0 +1,147 @@
+import { Trip, Expense, ExpenseCategory, ExpenseShare } from './types';
+import { EXPENSE_CATEGORIES } from './constants';
+import { currencyOptions, rateForCurrency } from './currencies';
+import { defaultPaymentMethod, findPaymentMethod, paymentBreakdown, isCashPayment } from './paymentMethods';
+import { effectiveCashRate } from './cashWallet';
+
+// --- Quick Add ---
+// Parses one line such as "拉麵 1200 現金 parents" or "taxi 3400 JPY card" into an expense,
+// entirely offline. Each word is tried as an amount, currency, payment method or traveller;
+// whatever is left becomes the item name and is used to guess the category.
+
+export interface QuickExpenseDraft {
+    item: string;
+    amount: number; // In currency
+    currency: string;
+    paymentMethod: string;
+    paidBy: string;
+    shares: ExpenseShare[];
+    category: ExpenseCategory;
+}
+
+const CURRENCY_SYMBOLS: { [symbol: string]: string[] } = {
+    'NT$': ['TWD'], '元': ['TWD', 'CNY'], '¥': ['JPY', 'CNY'], '円': ['JPY'], '₩': ['KRW'], '원': ['KRW'],
+    '€': ['EUR'], '£': ['GBP'], '฿': ['THB'], '$': ['USD', 'SGD', 'HKD', 'AUD', 'CAD', 'NZD']
+};
+
+const CASH_WORDS = ['cash', '現金', '现金'];
+const CARD_WORDS = ['card', 'credit', '卡', '刷卡', '信用卡'];
+const EVERYONE_WORDS = ['all', 'shared', 'everyone', '大家', '平分', '均分'];
+const ME_WORDS = ['me', '我', '自己'];
+
+// Keywords checked in order; the first hit wins
+const CATEGORY_KEYWORDS: [ExpenseCategory, string[]][] = [
+    ['flight', ['flight', 'airline', '機票', '航班']],
+    ['accommodation', ['hotel', 'hostel', 'airbnb', '飯店', '旅館', '住宿', '民宿']],
+    ['internet', ['sim', 'wifi', 'esim', '網卡', '網路']],
+    ['transport', ['taxi', 'uber', 'train', 'bus', 'metro', 'subway', 'suica', 'icoca', 'jr', '計程車', '電車', '地鐵', '公車', '新幹線', '交通']],
+    ['ticket', ['ticket', 'museum', 'entry', 'admission', '門票', '入場', '票']],
+    ['souvenir', ['souvenir', 'gift', '伴手禮', '紀念品', '禮物', '藥妝', '手信']],
+    ['food', ['ramen', 'sushi', 'lunch', 'dinner', 'breakfast', 'coffee', 'cafe', 'beer', 'snack', '拉麵', '壽司', '午餐', '晚餐', '早餐', '咖啡', '餐', '飯', '麵', '吃', '喝', '酒', '便利商店', '超商']],
+];
+
+// Latin keywords must be whole words (so 'bus' is not found in "business"), plurals included;
+// CJK text has no spaces, so those keywords match anywhere
+const hasKeyword = (lower: string, word: string) =>
+    /^[a-z]/.test(word) ? new RegExp(`\\b${word}s?\\b`).test(lower) : lower.includes(word);
+
+const guessCategory = (text: string): ExpenseCategory | undefined => {
+    const lower = text.toLowerCase();
+    return CATEGORY_KEYWORDS.find(([, words]) => words.some(w => hasKeyword(lower, w)))?.[0];
+};
+
+// A symbol shared by several currencies ('元', '¥') means the trip's own currency when it can,
+// then another currency the trip uses, and TWD (always an option) only after that
+const pickCurrency = (candidates: string[], trip: Trip, options: string[]) =>
+    candidates.find(c => c === trip.currencyCode)
+    || candidates.find(c => c !== 'TWD' && options.includes(c))
+    || candidates.find(c => options.includes(c))
+    || candidates[0];
+
+const AMOUNT_PATTERN = /^(NT\$|[¥$€£₩฿])?(\d[\d,]*(?:\.\d+)?)(k)?(NT\$|[¥$€£₩฿円元원]|[a-z]{3})?$/i;
+
+export const parseQuickExpense = (trip: Trip, text: string): QuickExpenseDraft | null => {
+    const options = currencyOptions(trip);
+    const cashMethod = trip.paymentMethods.find(m => m.isCash);
+    const cardMethod = trip.paymentMethods.find(m => !m.isCash);
+    const travellerFor = (word: string) => {
+        const lower = word.toLowerCase();
+        if (ME_WORDS.includes(lower)) return trip.travellers[0];
+        return trip.travellers.find(t => t.id.toLowerCase() === lower || t.name.toLowerCase() === lower);
+    };
+
+    let amount: number | undefined;
+    let currency: string | undefined;
+    let paymentMethod: string | undefined;
+    let paidBy: string | undefined;
+    let category: ExpenseCategory | undefined;
+    const sharedBy: string[] = [];
+    const rest: string[] = [];
+
+    text.trim().split(/\s+/).filter(Boolean).forEach(word => {
+        const lower = word.toLowerCase();
+        let match = amount === undefined ? word.match(AMOUNT_PATTERN) : null;
+        // A three-letter suffix is only a currency the trip uses; "2pcs" is part of the name
+        if (match?.[4] && !CURRENCY_SYMBOLS[match[4]] && !options.includes(match[4].toUpperCase())) match = null;
+        if (match) {
+            amount = parseFloat(match[2].replace(/,/g, '')) * (match[3] ? 1000 : 1);
+            const unit = match[1] || match[4];
+            if (unit) currency = CURRENCY_SYMBOLS[unit] ? pickCurrency(CURRENCY_SYMBOLS[unit], trip, options) : unit.toUpperCase();
+            return;
+        }
+        if (options.includes(word.toUpperCase())) return currency = word.toUpperCase();
+        if (CURRENCY_SYMBOLS[word]) return currency = pickCurrency(CURRENCY_SYMBOLS[word], trip, options);
+
+        const method = trip.paymentMethods.find(m => m.name.toLowerCase() === lower || m.id.toLowerCase() === lower);
+        if (method) return paymentMethod = method.id;
+        if (CASH_WORDS.includes(lower) && cashMethod) return paymentMethod = cashMethod.id;
+        if (CARD_WORDS.includes(lower) && cardMethod) return paymentMethod = cardMethod.id;
+
+        // "@name" is the payer, a bare name shares the expense
+        const payer = word.startsWith('@') ? travellerFor(word.slice(1)) : undefined;
+        if (payer) return paidBy = payer.id;
+        if (EVERYONE_WORDS.includes(lower)) return sharedBy.push(...trip.travellers.map(t => t.id));
+        const traveller = travellerFor(word);
+        if (traveller) return sharedBy.push(traveller.id);
+
+        const label = EXPENSE_CATEGORIES.find(c => c.label === word || c.id === lower);
+        if (label) return category = label.id;
+        // Any other ISO code is still the currency (not a payment method such as "JCB");
+        // a missing rate is reported when saving
+        if (/^[A-Z]{3}$/.test(word)) return currency = word;
+        rest.push(word);
+    });
+
+    if (amount === undefined || !(amount > 0)) return null;
+    const item = rest.join(' ');
+    const travellerIds = sharedBy.length > 0 ? [...new Set(sharedBy)] : trip.travellers.map(t => t.id);
+    return {
+        item: item || EXPENSE_CATEGORIES.find(c => c.id === category)?.label || '支出',
+        amount,
+        currency: currency || trip.currencyCode,
+        paymentMethod: paymentMethod || defaultPaymentMethod(trip),
+        paidBy: paidBy || trip.travellers[0]?.id || '',
+        shares: travellerIds.map(travellerId => ({ travellerId, value: 1 })),
+        category: category || guessCategory(item) || 'other'
+    };
+};
+
+// The trip's own rates only, so quick add works offline; undefined when the currency has none
+export const quickExpenseRate = (trip: Trip, draft: QuickExpenseDraft) =>
+    (isCashPayment(trip, draft.paymentMethod) ? effectiveCashRate(trip, draft.currency) : undefined)
+        ?? rateForCurrency(trip, draft.currency);
+
+export const quickExpense = (trip: Trip, draft: QuickExpenseDraft, rate: number, date: string, id: string): Expense => ({
+    id,
+    item: draft.item,
+    foreignAmount: draft.amount,
+    twdAmount: Math.round(paymentBreakdown(draft.amount, rate, draft.currency, findPaymentMethod(trip, draft.paymentMethod)).charged),
+    exchangeRate: rate,
+    currency: draft.currency,
+    category: draft.category,
+    paymentMethod: draft.paymentMethod,
+    paidBy: draft.paidBy,
+    splitMode: 'weighted',
+    shares: draft.shares,
+    date
+});
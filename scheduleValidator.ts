@@ -0,0 +1,74 @@
+import { Trip, DayPlan, ItineraryItem } from './types';
+
+// --- Schedule Validator ---
+// Checks each day's items in time order. travelTime on an item is the time needed to
+// reach the next one; an accommodation item is the check-in that ends the day.
+
+export type ScheduleIssueType = 'overlap' | 'transfer' | 'missingEnd' | 'afterCheckIn';
+
+export interface ScheduleIssue {
+    type: ScheduleIssueType;
+    severity: 'error' | 'warning';
+    dayIndex: number;
+    itemId: string;
+    message: string;
+}
+
+const toMinutes = (time?: string) => {
+    const match = time?.match(/^(\d{1,2}):(\d{2})/);
+    return match ? Number(match[1]) * 60 + Number(match[2]) : undefined;
+};
+
+// "15 min", "1h 30m", "1.5 hr", "1小時20分", "40分鐘"; a bare number is minutes
+export const parseDuration = (text?: string): number | undefined => {
+    if (!text) return undefined;
+    const hours = text.match(/(\d+(?:\.\d+)?)\s*(h|hr|hrs|hour|hours|小時|時)/i);
+    const minutes = text.match(/(\d+)\s*(m|min|mins|minute|minutes|分)/i);
+    if (hours || minutes) return Math.round((hours ? parseFloat(hours[1]) * 60 : 0) + (minutes ? Number(minutes[1]) : 0));
+    const bare = text.trim().match(/^\d+$/);
+    return bare ? Number(bare[0]) : undefined;
+};
+
+// End of an item in minutes after midnight of its day; an end before the start ran past midnight
+const endMinutes = (item: ItineraryItem) => {
+    const start = toMinutes(item.time);
+    const end = toMinutes(item.endTime);
+    if (start === undefined || end === undefined) return undefined;
+    return end < start ? end + 24 * 60 : end;
+};
+
+const formatMinutes = (minutes: number) => minutes >= 60 ? `${Math.floor(minutes / 60)} 小時${minutes % 60 ? ` ${minutes % 60} 分` : ''}` : `${minutes} 分`;
+
+export const validateDay = (day: DayPlan, dayIndex: number): ScheduleIssue[] => {
+    const issues: ScheduleIssue[] = [];
+    const items = [...day.items].filter(i => toMinutes(i.time) !== undefined).sort((a, b) => a.time.localeCompare(b.time));
+    const issue = (type: ScheduleIssueType, severity: ScheduleIssue['severity'], item: ItineraryItem, message: string) =>
+        issues.push({ type, severity, dayIndex, itemId: item.id, message });
+
+    const checkIn = items.find(i => i.type === 'accommodation');
+    items.forEach((item, index) => {
+        const next = items[index + 1];
+        if (checkIn && item !== checkIn && item.time > checkIn.time) {
+            issue('afterCheckIn', 'warning', item, `排在住宿「${checkIn.activity}」入住之後`);
+        }
+        if (!next) return;
+
+        const start = toMinutes(item.time)!;
+        const nextStart = toMinutes(next.time)!;
+        const end = endMinutes(item);
+        if (end === undefined && item.type !== 'accommodation') {
+            issue('missingEnd', 'warning', item, '未設定結束時間，無法確認能否銜接下一個行程');
+        }
+        if (end !== undefined && end > nextStart) {
+            issue('overlap', 'error', item, `與「${next.activity}」重疊 ${formatMinutes(end - nextStart)}`);
+        }
+        const travel = parseDuration(item.travelTime);
+        const gap = nextStart - (end ?? start);
+        if (travel !== undefined && (end === undefined || end <= nextStart) && travel > gap) {
+            issue('transfer', 'error', item, `前往「${next.activity}」需 ${formatMinutes(travel)}，但只有 ${formatMinutes(Math.max(gap, 0))}`);
+        }
+    });
+    return issues;
+};
+
+export const validateTrip = (trip: Trip): ScheduleIssue[] => trip.itinerary.flatMap(validateDay);
@@ -0,0 +1,202 @@
+import { Trip } from './types';
+import { mapTripAttachments, isDataUrl, dataUrlToBlob, blobToDataUrl } from './attachments';
+import { migrateTrip } from './tripMigrations';
+import LZString from 'lz-string';
+
+// --- IndexedDB Layout ---
+// trips:       one record per Trip, files replaced by "attachment:<id>" references
+// attachments: { id: "<tripId>/<kind>/<ownerId>", tripId, blob }
+
+const DB_NAME = 'voyage-db';
+const DB_VERSION = 1;
+const TRIP_STORE = 'trips';
+const ATTACHMENT_STORE = 'attachments';
+const ATTACHMENT_REF_PREFIX = 'attachment:';
+
+// Legacy localStorage keys, migrated on first load
+const LEGACY_TRIPS_KEY = 'voyage-trips';
+const LEGACY_SINGLE_TRIP_KEY = 'gemini-trip-v1';
+
+interface StoredAttachment {
+    id: string;
+    tripId: string;
+    blob: Blob;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(TRIP_STORE)) db.createObjectStore(TRIP_STORE, { keyPath: 'id' });
+                if (!db.objectStoreNames.contains(ATTACHMENT_STORE)) db.createObjectStore(ATTACHMENT_STORE, { keyPath: 'id' });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+    });
+};
+
+// All attachment ids of a trip share the "<tripId>/" prefix
+const tripAttachmentRange = (tripId: string) => IDBKeyRange.bound(`${tripId}/`, `${tripId}/\uffff`);
+
+// Payloads already persisted, so an edit to a trip does not rewrite its unchanged images
+const writtenAttachments = new Map<string, string>();
+
+export const saveTrip = async (trip: Trip): Promise<void> => {
+    const db = await openDB();
+
+    const attachments: { id: string; dataUrl: string }[] = [];
+    const record = mapTripAttachments(trip, (value, kind, ownerId) => {
+        if (!isDataUrl(value)) return value;
+        const id = `${trip.id}/${kind}/${ownerId}`;
+        attachments.push({ id, dataUrl: value });
+        return ATTACHMENT_REF_PREFIX + id;
+    });
+
+    const tx = db.transaction([TRIP_STORE, ATTACHMENT_STORE], 'readwrite');
+    const done = transactionDone(tx);
+    tx.objectStore(TRIP_STORE).put(record);
+
+    const attachmentStore = tx.objectStore(ATTACHMENT_STORE);
+    const changed = attachments.filter(a => writtenAttachments.get(a.id) !== a.dataUrl);
+    changed.forEach(a => {
+        const stored: StoredAttachment = { id: a.id, tripId: trip.id, blob: dataUrlToBlob(a.dataUrl) };
+        attachmentStore.put(stored);
+        writtenAttachments.set(a.id, a.dataUrl);
+    });
+
+    // Remove files that are no longer referenced (deleted voucher, cleared photo...)
+    const referenced = new Set(attachments.map(a => a.id));
+    const keysRequest = attachmentStore.getAllKeys(tripAttachmentRange(trip.id));
+    keysRequest.onsuccess = () => {
+        keysRequest.result
+            .filter(key => !referenced.has(String(key)))
+            .forEach(key => {
+                attachmentStore.delete(key);
+                writtenAttachments.delete(String(key));
+            });
+    };
+
+    try {
+        await done;
+    } catch (e) {
+        // Force a rewrite on the next save
+        changed.forEach(a => writtenAttachments.delete(a.id));
+        throw e;
+    }
+};
+
+export const deleteTrip = async (tripId: string): Promise<void> => {
+    const db = await openDB();
+    const tx = db.transaction([TRIP_STORE, ATTACHMENT_STORE], 'readwrite');
+    const done = transactionDone(tx);
+    tx.objectStore(TRIP_STORE).delete(tripId);
+    tx.objectStore(ATTACHMENT_STORE).delete(tripAttachmentRange(tripId));
+    await done;
+    Array.from(writtenAttachments.keys())
+        .filter(id => id.startsWith(`${tripId}/`))
+        .forEach(id => writtenAttachments.delete(id));
+};
+
+// Persists only what changed between two snapshots of the trip list
+export const syncTrips = async (previous: Trip[], next: Trip[]): Promise<void> => {
+    const previousById = new Map(previous.map(t => [t.id, t]));
+    const nextIds = new Set(next.map(t => t.id));
+    await Promise.all([
+        ...next.filter(t => previousById.get(t.id) !== t).map(saveTrip),
+        ...previous.filter(t => !nextIds.has(t.id)).map(t => deleteTrip(t.id))
+    ]);
+};
+
+// Upgrades raw records to the current schema. Records that fail are left untouched
+// in storage (never deleted) so a newer build can still open them.
+const migrateTrips = (records: any[]): Trip[] => records.flatMap(record => {
+    try {
+        return [migrateTrip(record)];
+    } catch (e) {
+        console.error(`Skipping trip ${record?.id}`, e);
+        return [];
+    }
+});
+
+const readLegacyTrips = (): Trip[] | null => {
+    const savedTrips = localStorage.getItem(LEGACY_TRIPS_KEY);
+    if (savedTrips) {
+        try {
+            const parsed = JSON.parse(savedTrips);
+            return Array.isArray(parsed) ? parsed : null;
+        } catch (e) {
+            console.error("Failed to parse saved trips", e);
+            return null;
+        }
+    }
+
+    const oldTrip = localStorage.getItem(LEGACY_SINGLE_TRIP_KEY);
+    if (oldTrip) {
+        try {
+            const parsed = JSON.parse(LZString.decompressFromUTF16(oldTrip) || 'null');
+            return parsed ? [parsed] : null;
+        } catch (e) {
+            console.error("Failed to parse legacy trip", e);
+        }
+    }
+    return null;
+};
+
+// Moves trips from the old localStorage keys into IndexedDB.
+// The legacy keys are only removed once every trip has been written.
+const migrateLegacyStorage = async (): Promise<Trip[]> => {
+    const legacyTrips = migrateTrips(readLegacyTrips() || []);
+    if (legacyTrips.length === 0) return [];
+
+    await Promise.all(legacyTrips.map(saveTrip));
+    localStorage.removeItem(LEGACY_TRIPS_KEY);
+    localStorage.removeItem(LEGACY_SINGLE_TRIP_KEY);
+    return legacyTrips;
+};
+
+export const loadTrips = async (): Promise<Trip[]> => {
+    const db = await openDB();
+    const tx = db.transaction([TRIP_STORE, ATTACHMENT_STORE], 'readonly');
+    const [records, storedAttachments] = await Promise.all([
+        requestToPromise(tx.objectStore(TRIP_STORE).getAll() as IDBRequest<Trip[]>),
+        requestToPromise(tx.objectStore(ATTACHMENT_STORE).getAll() as IDBRequest<StoredAttachment[]>)
+    ]);
+
+    if (records.length === 0) return migrateLegacyStorage();
+
+    const dataUrls = new Map<string, string>();
+    await Promise.all(storedAttachments.map(async a => {
+        const dataUrl = await blobToDataUrl(a.blob);
+        dataUrls.set(a.id, dataUrl);
+        writtenAttachments.set(a.id, dataUrl);
+    }));
+
+    return migrateTrips(records).map(record => mapTripAttachments(record, value => {
+        if (!value.startsWith(ATTACHMENT_REF_PREFIX)) return value;
+        return dataUrls.get(value.slice(ATTACHMENT_REF_PREFIX.length)) || '';
+    }));
+};
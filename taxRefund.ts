@@ -0,0 +1,109 @@
+import { Trip, Expense, TaxRefundStatus } from './types';
+import { rateForCurrency } from './currencies';
+import { expenseShareAmounts } from './ledger';
+
+// --- Tax Refund ---
+// Eligible purchases are grouped into claims by store, and also by day in countries
+// where the minimum applies per store per day. A received refund is recorded as a
+// negative expense whose refundOf lists the purchases, so every total nets it out.
+
+export interface TaxRefundRule {
+    currency: string;
+    region: string;
+    minimum: number; // Per claim, in the currency
+    perDay: boolean; // Only same-day purchases at a store add up to the minimum
+}
+
+// Minimums at the time of writing; countries without a minimum are left out
+export const TAX_REFUND_RULES: TaxRefundRule[] = [
+    { currency: 'JPY', region: '日本', minimum: 5000, perDay: true },
+    { currency: 'KRW', region: '韓國', minimum: 15000, perDay: true },
+    { currency: 'THB', region: '泰國', minimum: 2000, perDay: true },
+    { currency: 'SGD', region: '新加坡', minimum: 100, perDay: false },
+    { currency: 'AUD', region: '澳洲', minimum: 300, perDay: false },
+    { currency: 'CNY', region: '中國', minimum: 500, perDay: true },
+    { currency: 'EUR', region: '歐盟 (以法國為準)', minimum: 100.01, perDay: true },
+];
+
+export const taxRefundRule = (currency: string) => TAX_REFUND_RULES.find(r => r.currency === currency);
+
+export interface TaxRefundClaim {
+    key: string;
+    store: string;
+    date?: string; // Set when the rule counts per day
+    currency: string;
+    purchases: Expense[];
+    total: number; // In the currency
+    rule?: TaxRefundRule;
+    eligible: boolean; // Meets the minimum, or the currency has none
+    status: TaxRefundStatus;
+    refund?: Expense;
+}
+
+const isRefundFor = (e: Expense, purchases: Expense[]) => !!e.refundOf?.some(id => purchases.some(p => p.id === id));
+
+export const taxRefundClaims = (trip: Trip): TaxRefundClaim[] => {
+    const claims = new Map<string, TaxRefundClaim>();
+    trip.expenses.forEach(e => {
+        if (!e.taxRefund) return;
+        const rule = taxRefundRule(e.currency);
+        const date = rule?.perDay ? e.date.split('T')[0] : undefined;
+        const store = e.taxRefund.store.trim() || e.item;
+        const key = [store, e.currency, date || ''].join('|');
+        if (!claims.has(key)) {
+            claims.set(key, { key, store, date, currency: e.currency, purchases: [], total: 0, rule, eligible: false, status: e.taxRefund.status });
+        }
+        const claim = claims.get(key)!;
+        claim.purchases.push(e);
+        claim.total += e.currency === 'TWD' ? e.twdAmount : e.foreignAmount;
+    });
+    return [...claims.values()].map(claim => {
+        const refund = trip.expenses.find(e => isRefundFor(e, claim.purchases));
+        return {
+            ...claim,
+            eligible: !claim.rule || claim.total >= claim.rule.minimum,
+            status: refund ? 'received' : claim.status,
+            refund
+        };
+    }).sort((a, b) => (a.date || '').localeCompare(b.date || '') || a.store.localeCompare(b.store));
+};
+
+// Refunds go to whoever paid, and lower each traveller's cost in proportion to what
+// they owed for the purchases
+const refundExpense = (trip: Trip, claim: TaxRefundClaim, amount: number, date: string, id: string): Expense => {
+    const first = claim.purchases[0];
+    const rate = rateForCurrency(trip, claim.currency) || first.exchangeRate || 1;
+    const owed: { [travellerId: string]: number } = {};
+    claim.purchases.forEach(p => Object.entries(expenseShareAmounts(p)).forEach(([t, v]) => owed[t] = (owed[t] || 0) + v));
+    return {
+        id,
+        item: `退稅 ${claim.store}`,
+        foreignAmount: claim.currency === 'TWD' ? 0 : -amount,
+        twdAmount: Math.round(-amount * rate),
+        exchangeRate: rate,
+        currency: claim.currency,
+        category: first.category,
+        paymentMethod: first.paymentMethod,
+        paidBy: first.paidBy,
+        splitMode: 'weighted',
+        shares: Object.entries(owed).map(([travellerId, value]) => ({ travellerId, value: Math.round(value) })),
+        refundOf: claim.purchases.map(p => p.id),
+        date
+    };
+};
+
+// Moving a claim away from 'received' drops its refund; 'received' needs the refunded amount
+export const setClaimStatus = (trip: Trip, claim: TaxRefundClaim, status: TaxRefundStatus, refund?: { amount: number; date: string; id: string }): Trip => {
+    const ids = new Set(claim.purchases.map(p => p.id));
+    let expenses = trip.expenses
+        .filter(e => !isRefundFor(e, claim.purchases))
+        .map(e => ids.has(e.id) && e.taxRefund ? { ...e, taxRefund: { ...e.taxRefund, status } } : e);
+    if (status === 'received' && refund) {
+        expenses = [...expenses, refundExpense(trip, claim, refund.amount, refund.date, refund.id)];
+    }
+    return { ...trip, expenses };
+};
+
+// TWD received back, as a positive number
+export const refundedTotal = (trip: Trip) =>
+    -trip.expenses.filter(e => e.refundOf).reduce((sum, e) => sum + e.twdAmount, 0);
@@ -0,0 +1,116 @@
+import { Trip, ItineraryItem } from './types';
+
+// --- Time Zones ---
+// Item times are local wall-clock times. An item is in the trip's time zone unless it sets
+// its own; a flight's timeZone is where it departs and endTimeZone where it lands.
+
+export const HOME_TIME_ZONE = 'Asia/Taipei';
+
+export const COMMON_TIME_ZONES: { zone: string; label: string }[] = [
+    { zone: 'Asia/Taipei', label: '台北' },
+    { zone: 'Asia/Tokyo', label: '東京' },
+    { zone: 'Asia/Seoul', label: '首爾' },
+    { zone: 'Asia/Shanghai', label: '上海' },
+    { zone: 'Asia/Hong_Kong', label: '香港' },
+    { zone: 'Asia/Bangkok', label: '曼谷' },
+    { zone: 'Asia/Ho_Chi_Minh', label: '胡志明市' },
+    { zone: 'Asia/Singapore', label: '新加坡' },
+    { zone: 'Asia/Kuala_Lumpur', label: '吉隆坡' },
+    { zone: 'Asia/Manila', label: '馬尼拉' },
+    { zone: 'Asia/Dubai', label: '杜拜' },
+    { zone: 'Australia/Sydney', label: '雪梨' },
+    { zone: 'Pacific/Auckland', label: '奧克蘭' },
+    { zone: 'Europe/London', label: '倫敦' },
+    { zone: 'Europe/Paris', label: '巴黎' },
+    { zone: 'Europe/Berlin', label: '柏林' },
+    { zone: 'Europe/Rome', label: '羅馬' },
+    { zone: 'America/New_York', label: '紐約' },
+    { zone: 'America/Chicago', label: '芝加哥' },
+    { zone: 'America/Los_Angeles', label: '洛杉磯' },
+    { zone: 'Pacific/Honolulu', label: '檀香山' },
+];
+
+// Best guess for trips created before time zones were stored
+const CURRENCY_TIME_ZONES: { [currency: string]: string } = {
+    TWD: 'Asia/Taipei', JPY: 'Asia/Tokyo', KRW: 'Asia/Seoul', CNY: 'Asia/Shanghai', HKD: 'Asia/Hong_Kong',
+    MOP: 'Asia/Macau', THB: 'Asia/Bangkok', VND: 'Asia/Ho_Chi_Minh', SGD: 'Asia/Singapore', MYR: 'Asia/Kuala_Lumpur',
+    PHP: 'Asia/Manila', IDR: 'Asia/Jakarta', AED: 'Asia/Dubai', AUD: 'Australia/Sydney', NZD: 'Pacific/Auckland',
+    GBP: 'Europe/London', EUR: 'Europe/Paris', CHF: 'Europe/Zurich', USD: 'America/New_York', CAD: 'America/Toronto'
+};
+
+export const isValidTimeZone = (zone?: string): zone is string => {
+    if (!zone) return false;
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone: zone });
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+export const guessTimeZone = (currencyCode: string) => CURRENCY_TIME_ZONES[currencyCode] || HOME_TIME_ZONE;
+
+export const timeZoneLabel = (zone: string) => COMMON_TIME_ZONES.find(z => z.zone === zone)?.label || zone.split('/').pop()!.replace(/_/g, ' ');
+
+// Minutes the zone is ahead of UTC at the given instant (DST aware)
+export const zoneOffset = (zone: string, at: Date): number => {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone: zone, hourCycle: 'h23', year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit'
+    }).formatToParts(at);
+    const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+    const local = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'));
+    return Math.round((local - Math.floor(at.getTime() / 60000) * 60000) / 60000);
+};
+
+export const formatOffset = (minutes: number) =>
+    `UTC${minutes < 0 ? '-' : '+'}${Math.floor(Math.abs(minutes) / 60)}${Math.abs(minutes) % 60 ? `:${String(Math.abs(minutes) % 60).padStart(2, '0')}` : ''}`;
+
+// Date and HH:MM shown on a clock in the zone at the given instant
+export const wallClock = (zone: string, at: Date) => {
+    const local = new Date(at.getTime() + zoneOffset(zone, at) * 60000);
+    return { date: local.toISOString().slice(0, 10), time: local.toISOString().slice(11, 16) };
+};
+
+// The instant a clock in the zone shows minutes past midnight on date (may overflow into later days)
+export const zonedInstant = (zone: string, date: string, minutes: number) => {
+    const [y, m, d] = date.split('T')[0].split('-').map(Number);
+    const wall = Date.UTC(y, m - 1, d, 0, minutes);
+    const guess = wall - zoneOffset(zone, new Date(wall)) * 60000;
+    // Re-read the offset at the guess in case a DST change lies in between
+    return new Date(wall - zoneOffset(zone, new Date(guess)) * 60000);
+};
+
+// The calendar date in a zone, e.g. the destination's "today"
+export const todayIn = (zone: string, now: Date = new Date()) =>
+    new Intl.DateTimeFormat('en-CA', { timeZone: isValidTimeZone(zone) ? zone : HOME_TIME_ZONE, year: 'numeric', month: '2-digit', day: '2-digit' }).format(now);
+
+export const itemTimeZone = (trip: Trip, item: Pick<ItineraryItem, 'timeZone'>) => item.timeZone || trip.timeZone;
+
+export const itemEndTimeZone = (trip: Trip, item: Pick<ItineraryItem, 'timeZone' | 'endTimeZone'>) => item.endTimeZone || itemTimeZone(trip, item);
+
+const toMinutes = (time: string) => {
+    const [h, m] = time.split(':').map(Number);
+    return h * 60 + m;
+};
+
+// Elapsed minutes between start and end, each read in its own zone on the given date.
+// An end that comes out earlier than the start is taken to be the next day.
+export const itemDurationMinutes = (trip: Trip, item: Pick<ItineraryItem, 'time' | 'endTime' | 'timeZone' | 'endTimeZone'>, date: string): number | null => {
+    if (!item.time || !item.endTime || !/^\d{1,2}:\d{2}/.test(item.time) || !/^\d{1,2}:\d{2}/.test(item.endTime)) return null;
+    const noon = new Date(`${date.split('T')[0]}T12:00:00Z`);
+    const day = isNaN(noon.getTime()) ? new Date() : noon;
+    const startZone = itemTimeZone(trip, item);
+    const endZone = itemEndTimeZone(trip, item);
+    const startOffset = isValidTimeZone(startZone) ? zoneOffset(startZone, day) : 0;
+    const endOffset = isValidTimeZone(endZone) ? zoneOffset(endZone, day) : startOffset;
+    let diff = (toMinutes(item.endTime) - endOffset) - (toMinutes(item.time) - startOffset);
+    while (diff < 0) diff += 24 * 60;
+    return diff;
+};
+
+export const formatDuration = (minutes: number | null) => {
+    if (minutes === null) return null;
+    const hours = Math.floor(minutes / 60);
+    const mins = minutes % 60;
+    return `${hours > 0 ? hours + 'h' : ''}${mins > 0 ? mins + 'm' : ''}`;
+};
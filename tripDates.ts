@@ -0,0 +1,81 @@
+import { Trip, DayPlan, ItineraryItem } from './types';
+import { addDays, daysBetween } from './multiDay';
+
+// --- Trip Dates ---
+// Every change is expressed as the existing days in their new order (null for a new empty
+// day) from a start date. Each day's items, weather and linked expenses move by however
+// many days that day moved; items on removed days are parked in trip.unscheduled.
+
+type DaySlot = { plan: DayPlan; weather?: string } | null;
+
+// Keeps the time part of ISO date-times
+const shiftDate = (date: string, days: number) => days === 0 ? date : addDays(date, days) + date.slice(10);
+
+const rebuildDays = (trip: Trip, slots: DaySlot[], startDate: string, parked: ItineraryItem[] = []): Trip => {
+    const moved = new Map<string, number>();
+    const itinerary = slots.map((slot, index): DayPlan => {
+        const date = addDays(startDate, index);
+        if (!slot) return { date, items: [] };
+        const delta = daysBetween(slot.plan.date, date);
+        return {
+            ...slot.plan,
+            date,
+            items: slot.plan.items.map(item => {
+                moved.set(item.id, delta);
+                return item.endDate ? { ...item, endDate: shiftDate(item.endDate, delta) } : item;
+            })
+        };
+    });
+    return {
+        ...trip,
+        startDate: itinerary[0].date,
+        endDate: itinerary[itinerary.length - 1].date,
+        duration: itinerary.length,
+        itinerary,
+        dailyWeather: trip.dailyWeather && slots.map(slot => slot?.weather || ''),
+        expenses: trip.expenses.map(e => e.itemId && moved.get(e.itemId) ? { ...e, date: shiftDate(e.date, moved.get(e.itemId)!) } : e),
+        unscheduled: [...trip.unscheduled, ...parked]
+    };
+};
+
+// Multi-day items that start before index and run past it grow or shrink by the days
+// inserted or removed there. A stay whose check-out day is removed keeps its nights.
+const resizeSpans = (trip: Trip, index: number, days: number): Trip => ({
+    ...trip,
+    itinerary: trip.itinerary.map((day, dayIndex) => dayIndex >= index ? day : {
+        ...day,
+        items: day.items.map(item => {
+            if (!item.endDate) return item;
+            const end = daysBetween(trip.itinerary[0].date, item.endDate);
+            const spans = days > 0 ? end >= index : end > index || (end === index && item.type !== 'accommodation');
+            return spans ? { ...item, endDate: shiftDate(item.endDate, days) } : item;
+        })
+    })
+});
+
+const slotsOf = (trip: Trip): DaySlot[] => trip.itinerary.map((plan, index) => ({ plan, weather: trip.dailyWeather?.[index] }));
+
+// Moves the whole trip to start on another date
+export const shiftTrip = (trip: Trip, startDate: string): Trip => rebuildDays(trip, slotsOf(trip), startDate);
+
+// Adds an empty day at index; that day and the ones after it move a day later
+export const insertDay = (trip: Trip, index: number): Trip => {
+    const slots = slotsOf(resizeSpans(trip, index, 1));
+    slots.splice(index, 0, null);
+    return rebuildDays(trip, slots, trip.startDate);
+};
+
+// The days after index move a day earlier
+export const removeDay = (trip: Trip, index: number): Trip => {
+    if (trip.itinerary.length <= 1) return trip;
+    const slots = slotsOf(resizeSpans(trip, index, -1));
+    const [removed] = slots.splice(index, 1);
+    return rebuildDays(trip, slots, trip.startDate, removed!.plan.items);
+};
+
+export const moveDay = (trip: Trip, from: number, to: number): Trip => {
+    const slots = slotsOf(trip);
+    const [day] = slots.splice(from, 1);
+    slots.splice(to, 0, day);
+    return rebuildDays(trip, slots, trip.startDate);
+};
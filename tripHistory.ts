@@ -0,0 +1,78 @@
+import { Trip } from './types';
+import { mapTripAttachments } from './attachments';
+
+// Trip-level undo/redo.
+// Views edit nested arrays in place before calling updateTrip, so every entry is a
+// deep copy taken at commit time and restored entries are copied again on the way out.
+// Files are left out of the copy: each entry keeps "<kind>/<ownerId>" in their place and
+// holds the original strings, which are immutable and shared with the live trip.
+
+const MAX_HISTORY = 50;
+
+// Edits closer together than this (e.g. typing in the memo) collapse into one step
+const COALESCE_MS = 800;
+
+interface HistoryEntry {
+    trip: Trip;
+    files: Record<string, string>;
+}
+
+export interface TripHistory {
+    past: HistoryEntry[];
+    present: HistoryEntry;
+    future: HistoryEntry[];
+    lastChangeAt: number;
+}
+
+const snapshot = (trip: Trip): HistoryEntry => {
+    const files: Record<string, string> = {};
+    const stripped = mapTripAttachments(trip, (value, kind, ownerId) => {
+        const key = `${kind}/${ownerId}`;
+        files[key] = value;
+        return key;
+    });
+    return { trip: structuredClone(stripped), files };
+};
+
+const restore = (entry: HistoryEntry): Trip =>
+    mapTripAttachments(structuredClone(entry.trip), key => entry.files[key] ?? key);
+
+export const createHistory = (trip: Trip): TripHistory => ({
+    past: [],
+    present: snapshot(trip),
+    future: [],
+    lastChangeAt: 0
+});
+
+export const recordChange = (history: TripHistory, trip: Trip, now = Date.now()): TripHistory => {
+    const coalesce = history.past.length > 0 && now - history.lastChangeAt < COALESCE_MS;
+    return {
+        past: coalesce ? history.past : [...history.past, history.present].slice(-MAX_HISTORY),
+        present: snapshot(trip),
+        future: [],
+        lastChangeAt: now
+    };
+};
+
+export const undoChange = (history: TripHistory): TripHistory | null => {
+    if (history.past.length === 0) return null;
+    return {
+        past: history.past.slice(0, -1),
+        present: history.past[history.past.length - 1],
+        future: [history.present, ...history.future],
+        lastChangeAt: 0
+    };
+};
+
+export const redoChange = (history: TripHistory): TripHistory | null => {
+    if (history.future.length === 0) return null;
+    return {
+        past: [...history.past, history.present],
+        present: history.future[0],
+        future: history.future.slice(1),
+        lastChangeAt: 0
+    };
+};
+
+// A mutable copy of the current entry, safe to hand back to the views
+export const currentTrip = (history: TripHistory): Trip => restore(history.present);
@@ -0,0 +1,137 @@
+import { Trip } from './types';
+
+// Bump together with a new entry in MIGRATIONS whenever the Trip shape changes.
+export const CURRENT_SCHEMA_VERSION = 10;
+
+type Migration = (trip: any) => any;
+
+// MIGRATIONS[n] upgrades a trip from schemaVersion n to n + 1.
+// Trips saved before versioning existed have no schemaVersion and start at 0.
+const MIGRATIONS: Migration[] = [
+    // 0 -> 1: fill in the arrays and defaults that older builds left out
+    trip => {
+        const itinerary = (Array.isArray(trip.itinerary) ? trip.itinerary : []).map((day: any) => ({
+            ...day,
+            items: (Array.isArray(day.items) ? day.items : []).map((item: any) => ({
+                ...item,
+                time: item.time || '00:00',
+                activity: item.activity || '',
+                location: item.location || '',
+                type: item.type || 'other',
+                alternatives: Array.isArray(item.alternatives) ? item.alternatives : []
+            }))
+        }));
+        return {
+            ...trip,
+            duration: Number(trip.duration) || itinerary.length,
+            currencyCode: trip.currencyCode || 'TWD',
+            exchangeRate: Number(trip.exchangeRate) || 1,
+            budget: Number(trip.budget) || 0,
+            budgets: Array.isArray(trip.budgets) ? trip.budgets : [],
+            expenses: (Array.isArray(trip.expenses) ? trip.expenses : []).map((e: any) => ({
+                ...e,
+                foreignAmount: Number(e.foreignAmount) || 0,
+                twdAmount: Number(e.twdAmount) || 0,
+                exchangeRate: Number(e.exchangeRate) || 1,
+                currency: e.currency || trip.currencyCode || 'TWD',
+                category: e.category || 'other',
+                paymentMethod: e.paymentMethod || 'cash',
+                split: e.split || 'me',
+                date: e.date || trip.startDate
+            })),
+            itinerary,
+            checklist: Array.isArray(trip.checklist) ? trip.checklist : [],
+            notes: trip.notes || '',
+            tips: Array.isArray(trip.tips) ? trip.tips : [],
+            vouchers: Array.isArray(trip.vouchers) ? trip.vouchers : []
+        };
+    },
+    // 1 -> 2: originId links copies of the same trip (see mergeService.ts)
+    trip => ({ ...trip, originId: trip.originId || trip.id }),
+    // 2 -> 3: currencies already used by expenses become entries in the rate table
+    trip => {
+        const extraCurrencies: { code: string; rate: number }[] = [];
+        trip.expenses.forEach((e: any) => {
+            if (e.currency === 'TWD' || e.currency === trip.currencyCode) return;
+            const existing = extraCurrencies.find(c => c.code === e.currency);
+            if (existing) existing.rate = e.exchangeRate;
+            else extraCurrencies.push({ code: e.currency, rate: e.exchangeRate });
+        });
+        return { ...trip, extraCurrencies };
+    },
+    // 3 -> 4: the me/parents/shared split becomes a traveller ledger.
+    // The owner paid for everything; 'parents' is owed by the parents, 'shared' by both evenly.
+    trip => {
+        const usesParents = trip.expenses.some((e: any) => e.split === 'parents' || e.split === 'shared');
+        const travellers = [{ id: 'me', name: '我' }, ...(usesParents ? [{ id: 'parents', name: '父母' }] : [])];
+        const sharesFor: { [split: string]: string[] } = { me: ['me'], parents: ['parents'], shared: ['me', 'parents'] };
+        return {
+            ...trip,
+            travellers,
+            expenses: trip.expenses.map(({ split, ...e }: any) => ({
+                ...e,
+                paidBy: 'me',
+                splitMode: 'weighted',
+                shares: (sharesFor[split] || sharesFor.me).map(travellerId => ({ travellerId, value: 1 }))
+            }))
+        };
+    },
+    // 4 -> 5: payment methods become configurable; the built-in ones keep their ids
+    trip => ({
+        ...trip,
+        paymentMethods: [
+            { id: 'cash', name: '現金', feePercent: 0, fixedFee: 0, cashbackPercent: 0 },
+            { id: 'cube_card', name: 'Cube卡', feePercent: 1.5, fixedFee: 0, cashbackPercent: 0 },
+            { id: 'credit_card', name: '信用卡', feePercent: 1.5, fixedFee: 0, cashbackPercent: 0 }
+        ]
+    }),
+    // 5 -> 6: cash wallet
+    trip => ({
+        ...trip,
+        paymentMethods: trip.paymentMethods.map((m: any) => ({ ...m, isCash: m.id === 'cash' })),
+        cashEntries: []
+    }),
+    // 6 -> 7: saved expense views
+    trip => ({ ...trip, expenseViews: [] }),
+    // 7 -> 8: destination time zone, guessed from the currency
+    trip => {
+        const zones: { [currency: string]: string } = {
+            JPY: 'Asia/Tokyo', KRW: 'Asia/Seoul', CNY: 'Asia/Shanghai', HKD: 'Asia/Hong_Kong', THB: 'Asia/Bangkok',
+            VND: 'Asia/Ho_Chi_Minh', SGD: 'Asia/Singapore', MYR: 'Asia/Kuala_Lumpur', PHP: 'Asia/Manila',
+            AUD: 'Australia/Sydney', GBP: 'Europe/London', EUR: 'Europe/Paris', USD: 'America/New_York'
+        };
+        return { ...trip, timeZone: zones[trip.currencyCode] || 'Asia/Taipei' };
+    },
+    // 8 -> 9: items not on any day
+    trip => ({ ...trip, unscheduled: [] }),
+    // 9 -> 10: item cost became a planned cost. Older builds copied it into a linked TWD
+    // expense (no foreign amount, same amount as the cost), which would now read as the
+    // actual spending; those are unlinked and stay in the ledger as plain expenses.
+    trip => {
+        const items = [...trip.itinerary.flatMap((day: any) => day.items), ...trip.unscheduled];
+        const isAutoCost = (e: any) => {
+            const item = e.itemId && items.find((i: any) => i.id === e.itemId);
+            return !!item && e.currency === 'TWD' && !e.foreignAmount && (!item.costCurrency || item.costCurrency === 'TWD') && e.twdAmount === item.cost;
+        };
+        return { ...trip, expenses: trip.expenses.map((e: any) => isAutoCost(e) ? { ...e, itemId: undefined } : e) };
+    }
+];
+
+// Upgrades trip data from storage, an imported file or a share link to the current schema.
+// Throws if the data is not a trip or was written by a newer build.
+export const migrateTrip = (raw: any): Trip => {
+    if (!raw || typeof raw !== 'object' || !raw.id || !raw.destination) {
+        throw new Error('Invalid trip data');
+    }
+
+    let version = typeof raw.schemaVersion === 'number' ? raw.schemaVersion : 0;
+    if (version > CURRENT_SCHEMA_VERSION) {
+        throw new Error(`Trip schema v${version} is newer than supported v${CURRENT_SCHEMA_VERSION}`);
+    }
+
+    let trip = raw;
+    for (; version < CURRENT_SCHEMA_VERSION; version++) {
+        trip = { ...MIGRATIONS[version](trip), schemaVersion: version + 1 };
+    }
+    return trip as Trip;
+};
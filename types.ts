@@ -1,8 +1,39 @@
 export type ActivityType = 'flight' | 'attraction' | 'food' | 'transport' | 'accommodation' | 'other';
 
 export type ExpenseCategory = 'flight' | 'accommodation' | 'internet' | 'transport' | 'ticket' | 'food' | 'souvenir' | 'other';
-export type PaymentMethod = 'cash' | 'cube_card' | 'credit_card';
-export type SplitType = 'me' | 'parents' | 'shared';
+export type PaymentMethod = string; // PaymentMethodConfig id
+
+export interface PaymentMethodConfig {
+  id: string;
+  name: string; // e.g. "Suica", "Wise"
+  feePercent: number; // Foreign transaction fee, % of the converted amount
+  fixedFee: number; // TWD charged per payment
+  cashbackPercent: number; // Rewards, % of the charged amount
+  isCash: boolean; // Payments draw down the cash wallet
+}
+
+export type CashEntryType = 'exchange' | 'atm' | 'adjustment';
+
+export interface CashEntry {
+  id: string;
+  type: CashEntryType;
+  currency: string;
+  amount: number; // Cash received; adjustments are negative when cash went missing
+  twdCost: number; // TWD paid for it including fees (0 for adjustments)
+  date: string;
+  note?: string;
+}
+export type SplitMode = 'weighted' | 'exact';
+
+export interface Traveller {
+  id: string;
+  name: string;
+}
+
+export interface ExpenseShare {
+  travellerId: string;
+  value: number; // Weight, or amount in the expense currency when splitMode is 'exact'
+}
 
 export interface Budget {
   id: string;
@@ -10,6 +41,26 @@ export interface Budget {
   amount: number; // TWD
 }
 
+export interface TripCurrency {
+  code: string; // ISO 4217
+  rate: number; // TWD per 1 unit
+}
+
+export type TaxRefundStatus = 'pending' | 'claimed' | 'received';
+
+export interface TaxRefund {
+  store: string; // Purchases at the same store are claimed together
+  status: TaxRefundStatus;
+}
+
+export interface ExpenseLine {
+  id: string;
+  name: string;
+  amount: number; // In the expense currency
+  category: ExpenseCategory;
+  shares?: ExpenseShare[]; // Weighted; when missing the line follows the expense's own split
+}
+
 export interface Expense {
   id: string;
   itemId?: string; // Link to itinerary item
@@ -21,10 +72,37 @@ export interface Expense {
   category: ExpenseCategory;
   paymentMethod: PaymentMethod;
   photo?: string; // Base64
-  split: SplitType;
+  paidBy: string; // Traveller id
+  splitMode: SplitMode;
+  shares: ExpenseShare[]; // Travellers who owe a part of this expense
+  lines?: ExpenseLine[]; // Itemized receipt; must add up to the expense amount
+  taxRefund?: TaxRefund; // Purchase eligible for tax-free / VAT refund
+  refundOf?: string[]; // Negative adjustment: the refund received for these purchases
   date: string; // ISO Date
 }
 
+export type ExpenseSort = 'added' | 'date-desc' | 'date-asc' | 'amount-desc' | 'amount-asc';
+
+export interface ExpenseFilter {
+  text: string; // Matched against the item, store and line names
+  categories: ExpenseCategory[]; // Empty means any
+  paymentMethods: string[];
+  currencies: string[];
+  paidBy?: string; // Traveller id
+  sharedBy?: string; // Traveller id who owes a part
+  dateFrom?: string; // YYYY-MM-DD, inclusive
+  dateTo?: string;
+  minAmount?: number; // TWD
+  maxAmount?: number;
+  sort: ExpenseSort;
+}
+
+export interface SavedExpenseView {
+  id: string;
+  name: string;
+  filter: ExpenseFilter;
+}
+
 export interface BookingDetails {
   // Flight
   airline?: string;
@@ -48,7 +126,8 @@ export interface ItineraryItem {
   location: string;
   type: ActivityType;
   note?: string;
-  cost?: number; // Price for auto-expense
+  cost?: number; // Planned cost, in costCurrency
+  costCurrency?: string; // Missing means TWD
   isImportant?: boolean; // (6) Highlight
   bookingImage?: string; // (7) Base64 string for booking screenshot
   alternatives?: string[]; // (8) Backup plans
@@ -58,6 +137,10 @@ export interface ItineraryItem {
   lat?: number;
   lng?: number;
   bookingDetails?: BookingDetails; // New: Specialized info for Bookings tab
+  calendarUid?: string; // UID of the .ics event this item was imported from
+  timeZone?: string; // IANA zone of time; the trip's when missing (departure zone for flights)
+  endTimeZone?: string; // IANA zone of endTime when it differs (arrival zone for flights)
+  endDate?: string; // Last day of an item spanning several days (check-out day for stays); stored on its start day
 }
 
 export interface DayPlan {
@@ -127,17 +210,26 @@ export interface AdvancedGuide {
 
 export interface Trip {
   id: string;
+  schemaVersion: number; // See tripMigrations.ts
+  originId: string; // id of the trip this one was shared or imported from (its own id if created here)
   destination: string;
   startDate: string;
   endDate: string;
   duration: number;
   coverImage?: string;
   currencyCode: string; // e.g., JPY, USD
+  timeZone: string; // IANA zone of the destination; item times are local to it
   exchangeRate: number; // e.g., 1 TWD = X Foreign (Note: Usually kept as TWD/Foreign or Foreign/TWD depending on logic, here assume 1 TWD = X Foreign for initial fetch, but expense uses Foreign -> TWD rate usually)
+  extraCurrencies: TripCurrency[]; // Further currencies used on the trip besides currencyCode
+  travellers: Traveller[]; // The first one is the default payer
+  paymentMethods: PaymentMethodConfig[]; // The first one is the default
+  cashEntries: CashEntry[]; // Foreign cash obtained, see cashWallet.ts
+  expenseViews: SavedExpenseView[]; // Named expense filters
   budget: number; // Total Budget
   budgets: Budget[]; // Category breakdown
   expenses: Expense[];
   itinerary: DayPlan[];
+  unscheduled: ItineraryItem[]; // Ideas not yet placed on a day and items parked from a removed day; time may be ''
   checklist: ChecklistItem[];
   weather?: WeatherInfo;
   dailyWeather?: string[]; // Array of weather strings corresponding to days